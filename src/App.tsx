@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from './components/ui/button'
 import { Card } from './components/ui/card'
 import { Slider } from './components/ui/slider'
@@ -27,11 +27,15 @@ import {
   Sparkles,
   LogOut,
   Plus,
-  Trash2,
   Grid3x3,
+  Trash2,
+  FileDown,
+  FileUp,
+  History,
   X
 } from 'lucide-react'
 import toast, { Toaster } from 'react-hot-toast'
+import type { AnimationClip } from 'three'
 
 // Blink SDK
 import { blink } from './blink/client'
@@ -46,73 +50,96 @@ import ExportPanel from './components/ExportPanel'
 import BodyPresets from './components/BodyPresets'
 import LightingControls from './components/LightingControls'
 import AvatarPresets from './components/AvatarPresets'
-
-interface AvatarSettings {
-  gender: 'male' | 'female' | 'non-binary'
-  height: number
-  muscle: number
-  bodyFat: number
-  shoulderWidth: number
-  waistSize: number
-  skinTone: number
-  facialStructure: number
-  eyeSize: number
-  noseSize: number
-  mouthSize: number
-  hairStyle: number
-  hairColor: number
+import HistoryPanel from './components/HistoryPanel'
+import SharedAvatarPreview from './components/SharedAvatarPreview'
+import AvatarLibrary from './components/AvatarLibrary'
+import RevisionHistory from './components/RevisionHistory'
+import TrashBin from './components/TrashBin'
+import SyncStatusIndicator from './components/SyncStatusIndicator'
+import DefinitionImportDialog from './components/DefinitionImportDialog'
+import PoseLibrary from './components/PoseLibrary'
+import AnimationPanel from './components/AnimationPanel'
+import type { AvatarCanvasHandle } from './lib/export/scene'
+import { renderAvatarImage, RENDER_RESOLUTIONS, type RenderQuality } from './lib/export/render'
+import { downloadBlob } from './lib/export/download'
+import { slugify, waitForAvatar } from './lib/export/batch'
+import { useEditHistory } from './hooks/use-edit-history'
+import { useAvatarSync } from './hooks/use-avatar-sync'
+import { decodeSharedAvatar, readShareFragment, type SharedAvatar } from './lib/avatar/share'
+import {
+  DEFAULT_TEXTURE_PARAMS,
+  diffAvatarDefinitions,
+  parseAvatarDefinition,
+  serializeAvatarDefinition,
+  type AvatarDefinitionContent,
+  type DefinitionChange,
+  type TextureParams
+} from './lib/avatar/definition'
+import {
+  DEFAULT_AVATAR_SETTINGS,
+  DEFAULT_LIGHTING_SETTINGS,
+  SETTING_LABELS,
+  SETTING_RANGES,
+  serializeAvatarSettings,
+  type AvatarSettings,
+  type LightingSettings
+} from './lib/avatar/settings'
+import type { SavedAvatar } from './lib/avatar/library'
+import { listLocalSavedAvatars, type SyncResult } from './lib/avatar/sync'
+import { renderAvatarThumbnail, uploadAvatarThumbnail } from './lib/avatar/thumbnail'
+import type { AvatarRevision } from './lib/avatar/revisions'
+import { moveToTrash, purgeExpiredAvatars, restoreFromTrash } from './lib/avatar/trash'
+import { BUILT_IN_POSES, REST_POSE_ID, deletePose, listPoses, savePose, type AvatarPose, type PoseRotations } from './lib/avatar/poses'
+import { DEFAULT_ANIMATION_PLAYBACK, describeClips, type AnimationPlayback, type AnimationTimeline } from './lib/avatar/animation'
+import { parseBVH, type MotionCapture } from './lib/avatar/bvh'
+import { missingHumanBones } from './lib/export/humanoid'
+
+interface EditorState {
+  avatar: AvatarSettings
+  lighting: LightingSettings
 }
 
-interface LightingSettings {
-  ambientIntensity: number
-  directionalIntensity: number
-  directionalPosition: [number, number, number]
-  environmentIntensity: number
-  shadows: boolean
+interface PendingImport {
+  fileName: string
+  definition: AvatarDefinitionContent
+  issues: string[]
+  changes: DefinitionChange[]
 }
 
-interface SavedAvatar {
-  id: string
-  name: string
-  settings: AvatarSettings
-  thumbnailUrl?: string
-  createdAt: string
+interface PersistOptions {
+  // Revision a restore was made from
+  restoredFrom?: number | null
+  // Saved avatar being written back without being open in the editor; it keeps its own
+  // model and thumbnail instead of taking the editor's
+  stored?: SavedAvatar
 }
 
 function App() {
   const [user, setUser] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [avatarSettings, setAvatarSettings] = useState<AvatarSettings>({
-    gender: 'male',
-    height: 180,
-    muscle: 50,
-    bodyFat: 20,
-    shoulderWidth: 50,
-    waistSize: 50,
-    skinTone: 50,
-    facialStructure: 50,
-    eyeSize: 50,
-    noseSize: 50,
-    mouthSize: 50,
-    hairStyle: 1,
-    hairColor: 50
-  })
-
-  const [lightingSettings, setLightingSettings] = useState<LightingSettings>({
-    ambientIntensity: 0.5,
-    directionalIntensity: 1.0,
-    directionalPosition: [2, 4, 2],
-    environmentIntensity: 0.8,
-    shadows: true
+  // Avatar and lighting edits share one undo history
+  const history = useEditHistory<EditorState>({
+    avatar: DEFAULT_AVATAR_SETTINGS,
+    lighting: DEFAULT_LIGHTING_SETTINGS
   })
+  const avatarSettings = history.present.avatar
+  const lightingSettings = history.present.lighting
+  // Batch export shows each saved avatar, with its own custom model, in the viewport without
+  // touching the history or the model loaded in the editor
+  const [previewAvatar, setPreviewAvatar] = useState<Pick<SavedAvatar, 'settings' | 'customModel'> | null>(null)
+  // Settings from a share link, waiting for sign-in before they go into the editor
+  const [sharedAvatar, setSharedAvatar] = useState<SharedAvatar | null>(null)
 
   const [uploadedPhoto, setUploadedPhoto] = useState<string | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
   const [activePreset, setActivePreset] = useState<string | null>(null)
-  const [renderQuality, setRenderQuality] = useState<'HD' | '4K' | '8K'>('HD')
+  const [renderQuality, setRenderQuality] = useState<RenderQuality>('HD')
   const [savedAvatars, setSavedAvatars] = useState<SavedAvatar[]>([])
+  const [libraryVersion, setLibraryVersion] = useState(0)
   const [showSaveDialog, setShowSaveDialog] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showRevisionsDialog, setShowRevisionsDialog] = useState(false)
   const [showLoadDialog, setShowLoadDialog] = useState(false)
   const [avatarName, setAvatarName] = useState('')
   const [currentAvatarId, setCurrentAvatarId] = useState<string | null>(null)
@@ -121,6 +148,24 @@ function App() {
   const [enhancedTexture, setEnhancedTexture] = useState<string | null>(null)
   const [customGLBModel, setCustomGLBModel] = useState<string | null>(null)
   const [customModelName, setCustomModelName] = useState<string | null>(null)
+  const [textureParams, setTextureParams] = useState<TextureParams>(DEFAULT_TEXTURE_PARAMS)
+  const [avatarCanvas, setAvatarCanvas] = useState<AvatarCanvasHandle | null>(null)
+  // Definition file read from disk, waiting for the user to confirm the diff
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const definitionInputRef = useRef<HTMLInputElement>(null)
+  const [customPoses, setCustomPoses] = useState<AvatarPose[]>([])
+  // null once the pose has been edited in the viewport and not saved yet
+  const [activePoseId, setActivePoseId] = useState<string | null>(REST_POSE_ID)
+  const [poseRotations, setPoseRotations] = useState<PoseRotations>({})
+  const [isPoseEditing, setIsPoseEditing] = useState(false)
+  const poses = [...BUILT_IN_POSES, ...customPoses]
+  const [animationClips, setAnimationClips] = useState<AnimationClip[]>([])
+  // Imported BVH takes, kept for the session and retargeted onto whichever avatar is showing
+  const [motions, setMotions] = useState<MotionCapture[]>([])
+  const [animationTimeline, setAnimationTimeline] = useState<AnimationTimeline | null>(null)
+  const [playback, setPlayback] = useState<AnimationPlayback>(DEFAULT_ANIMATION_PLAYBACK)
+  // Local-first store for saved avatars, synced with the backend in the background
+  const avatarSync = useAvatarSync(user?.id, result => refreshSavedAvatars(result))
 
   // Authentication effect with error handling
   useEffect(() => {
@@ -139,105 +184,355 @@ function App() {
     }
   }, [])
 
-  // Load saved avatars when user is authenticated
+  // Share links keep everything in the fragment, so they work before sign-in and never reach the server
   useEffect(() => {
-    if (user?.id) {
-      loadSavedAvatars()
+    const readShareLink = () => {
+      const encoded = readShareFragment(window.location.hash)
+      if (!encoded) return
+      try {
+        setSharedAvatar(decodeSharedAvatar(encoded))
+      } catch (err) {
+        console.error('Share link error:', err)
+        toast.error(err instanceof Error ? err.message : 'This share link is not valid')
+        window.history.replaceState(null, '', window.location.pathname + window.location.search)
+      }
     }
+
+    readShareLink()
+    window.addEventListener('hashchange', readShareLink)
+    return () => window.removeEventListener('hashchange', readShareLink)
+  }, [])
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  const { undo, redo, commit } = history
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Once signed in, a shared avatar becomes an ordinary (undoable) edit
+  useEffect(() => {
+    if (!user || !sharedAvatar) return
+    commit('Opened shared link', () => ({ avatar: sharedAvatar.avatar, lighting: sharedAvatar.lighting }))
+    setCurrentAvatarId(null)
+    setAvatarName('')
+    setSharedAvatar(null)
+    window.history.replaceState(null, '', window.location.pathname + window.location.search)
+    toast.success('Loaded shared avatar')
+  }, [user, sharedAvatar, commit])
+
+  // Trash older than the retention period is emptied on sign-in
+  useEffect(() => {
+    if (!user?.id) return
+    purgeExpiredAvatars(user.id).catch(error => console.error('Error emptying expired trash:', error))
+  }, [user?.id])
+
+  // A different model or body brings its own clips; drop a selection it doesn't have
+  useEffect(() => {
+    setPlayback(prev => prev.clip && !animationClips.some(clip => clip.name === prev.clip) ? { ...prev, clip: null } : prev)
+  }, [animationClips])
+
+  useEffect(() => {
+    if (!user?.id) return
+    listPoses(user.id)
+      .then(setCustomPoses)
+      .catch(error => console.error('Error loading poses:', error))
   }, [user?.id])
 
+  // Sync the local store with the backend; savedAvatars is refreshed from it afterwards
   const loadSavedAvatars = async () => {
-    try {
-      if (!user?.id) return
-      
-      const avatars = await blink.db.avatars.list({
-        where: { user_id: user.id },
-        orderBy: { created_at: 'desc' },
-        limit: 10
-      })
+    if (!user?.id) return
+    await avatarSync.sync()
+    setLibraryVersion(version => version + 1)
+  }
 
-      const parsedAvatars = avatars.map(avatar => ({
-        id: avatar.id,
-        name: avatar.name,
-        settings: JSON.parse(avatar.settings),
-        thumbnailUrl: avatar.thumbnail_url || undefined,
-        createdAt: avatar.created_at
-      }))
-      
-      setSavedAvatars(parsedAvatars)
+  // Batch export and avatar names need every avatar; the library pages on its own
+  const refreshSavedAvatars = async (result: SyncResult | null) => {
+    if (!user?.id) return
+    try {
+      setSavedAvatars(await listLocalSavedAvatars(user.id))
+      if (result && (result.pushed > 0 || result.pulled > 0)) {
+        setLibraryVersion(version => version + 1)
+      }
     } catch (error) {
       console.error('Error loading avatars:', error)
       toast.error('Failed to load saved avatars')
     }
   }
 
+  // Saves go to the local store first and are uploaded by the sync engine, which writes
+  // each save's revision once the save is on the server
+  const persistAvatar = async (userId: string, id: string, name: string, settings: AvatarSettings, { restoredFrom = null, stored }: PersistOptions = {}) => {
+    const existing = savedAvatars.find(avatar => avatar.id === id)
+    const thumbnailUrl = stored ? null : await captureThumbnail(userId, id)
+    const modelUrl = stored ? stored.customModel?.url ?? null : customGLBModel
+    const modelName = stored ? stored.customModel?.name ?? null : customGLBModel ? customModelName : null
+    const now = new Date().toISOString()
+    const outcome = await avatarSync.save({
+      id,
+      user_id: userId,
+      name,
+      settings: serializeAvatarSettings(settings),
+      // A failed capture keeps whatever thumbnail the avatar already had
+      thumbnail_url: thumbnailUrl ?? existing?.thumbnailUrl ?? null,
+      custom_model_url: modelUrl,
+      custom_model_name: modelName,
+      created_at: existing?.createdAt ?? now,
+      updated_at: now
+    }, { userId, avatarId: id, name, settings, restoredFrom })
+
+    if (outcome === 'pending') {
+      toast('Saved on this device. It will upload when the connection is back.')
+    } else if (outcome === 'conflict') {
+      toast.error('Saved on this device, but it was also changed on another device. Resolve the conflict from the sync status.')
+    }
+    return outcome
+  }
+
   const saveAvatar = async () => {
     if (!user?.id || !avatarName.trim()) {
       toast.error('Please enter a name for your avatar')
       return
     }
 
+    setIsSaving(true)
     try {
-      const avatarData = {
-        id: currentAvatarId || `avatar_${Date.now()}`,
-        user_id: user.id,
-        name: avatarName.trim(),
-        settings: JSON.stringify(avatarSettings),
-        thumbnail_url: null // We could generate a thumbnail here
+      const id = currentAvatarId || `avatar_${Date.now()}`
+      const outcome = await persistAvatar(user.id, id, avatarName.trim(), avatarSettings)
+      if (outcome === 'synced') {
+        toast.success(currentAvatarId ? 'Avatar updated successfully!' : 'Avatar saved successfully!')
       }
+      setCurrentAvatarId(id)
 
-      if (currentAvatarId) {
-        // Update existing avatar
-        await blink.db.avatars.update(currentAvatarId, avatarData)
-        toast.success('Avatar updated successfully!')
-      } else {
-        // Create new avatar
-        await blink.db.avatars.create(avatarData)
-        toast.success('Avatar saved successfully!')
-        setCurrentAvatarId(avatarData.id)
-      }
-
-      await loadSavedAvatars()
+      setLibraryVersion(version => version + 1)
       setShowSaveDialog(false)
       setAvatarName('')
     } catch (error) {
       console.error('Error saving avatar:', error)
       toast.error('Failed to save avatar')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Restoring writes the old settings as a new head revision; later revisions stay in the timeline
+  const restoreRevision = async (revision: AvatarRevision) => {
+    if (!user?.id) return
+
+    try {
+      editAvatar(`Restored revision ${revision.revision}`, () => revision.settings)
+      // Let the viewport rebuild and draw the restored avatar before the thumbnail is captured
+      await waitForAvatar(avatarCanvas)
+      const outcome = await persistAvatar(user.id, revision.avatarId, revision.name, revision.settings, { restoredFrom: revision.revision })
+      setLibraryVersion(version => version + 1)
+      if (outcome === 'synced') {
+        toast.success(`Restored revision ${revision.revision}`)
+      }
+    } catch (error) {
+      console.error('Error restoring revision:', error)
+      toast.error('Failed to restore revision')
+    }
+  }
+
+  // Playing a clip and posing by hand both drive the bones, so only one runs at a time
+  const updatePlayback = (patch: Partial<AnimationPlayback>) => {
+    if (patch.clip) setIsPoseEditing(false)
+    setPlayback(prev => ({ ...prev, ...patch }))
+  }
+
+  const changePoseEditing = (editing: boolean) => {
+    if (editing) setPlayback(prev => ({ ...prev, clip: null }))
+    setIsPoseEditing(editing)
+  }
+
+  const importMotion = async (file: File) => {
+    // Clip names key playback, so a take never shadows a clip the avatar already has
+    const baseName = file.name.replace(/\.bvh$/i, '') || 'Motion capture'
+    const taken = new Set([...animationClips, ...motions].map(clip => clip.name))
+    let name = baseName
+    for (let copy = 2; taken.has(name); copy++) name = `${baseName} (${copy})`
+
+    try {
+      const motion = parseBVH(await file.text(), name)
+      setMotions(prev => [...prev, motion])
+      updatePlayback({ clip: name, playing: true })
+      const missing = missingHumanBones(motion.bones)
+      const matched = Object.keys(motion.bones).length
+      if (missing.length > 0) {
+        toast(`Imported "${name}" with ${matched} joints matched. No ${missing.join(', ')} found; those bones stay at rest.`)
+      } else {
+        toast.success(`Imported "${name}" with ${matched} joints matched`)
+      }
+    } catch (error) {
+      console.error('Error importing BVH:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to read BVH file')
+    }
+  }
+
+  const removeMotion = (name: string) => {
+    setMotions(prev => prev.filter(motion => motion.name !== name))
+  }
+
+  const selectPose = (pose: AvatarPose) => {
+    setActivePoseId(pose.id)
+    setPoseRotations(pose.rotations)
+  }
+
+  const editPose = (rotations: PoseRotations) => {
+    setActivePoseId(null)
+    setPoseRotations(rotations)
+  }
+
+  const saveCurrentPose = async (name: string) => {
+    if (!user?.id) return false
+    try {
+      const pose = await savePose(user.id, name, poseRotations)
+      setCustomPoses(prev => [...prev, pose])
+      setActivePoseId(pose.id)
+      toast.success(`Saved pose "${name}"`)
+      return true
+    } catch (error) {
+      console.error('Error saving pose:', error)
+      toast.error('Failed to save pose')
+      return false
+    }
+  }
+
+  // The viewport keeps showing a deleted pose, now as unsaved edits
+  const removePose = async (pose: AvatarPose) => {
+    try {
+      await deletePose(pose.id)
+      setCustomPoses(prev => prev.filter(candidate => candidate.id !== pose.id))
+      setActivePoseId(prev => prev === pose.id ? null : prev)
+    } catch (error) {
+      console.error('Error deleting pose:', error)
+      toast.error('Failed to delete pose')
+    }
+  }
+
+  // Thumbnails are a nice-to-have: saving goes ahead without one if the capture fails
+  const captureThumbnail = async (userId: string, avatarId: string) => {
+    if (!avatarCanvas) return null
+    try {
+      const blob = await renderAvatarThumbnail(avatarCanvas)
+      return await uploadAvatarThumbnail(blob, userId, avatarId)
+    } catch (error) {
+      console.error('Error generating thumbnail:', error)
+      return null
     }
   }
 
   const loadAvatar = (avatar: SavedAvatar) => {
-    setAvatarSettings(avatar.settings)
+    editAvatar(`Loaded "${avatar.name}"`, () => avatar.settings)
+    setCustomGLBModel(avatar.customModel?.url ?? null)
+    setCustomModelName(avatar.customModel?.name ?? null)
     setCurrentAvatarId(avatar.id)
     setAvatarName(avatar.name)
     setShowLoadDialog(false)
-    toast.success(`Loaded "${avatar.name}"`)
+    if (avatar.issues.length > 0) {
+      toast(`Loaded "${avatar.name}" with ${avatar.issues.length} repaired setting${avatar.issues.length !== 1 ? 's' : ''}. Save to keep the fixes.`)
+    } else {
+      toast.success(`Loaded "${avatar.name}"`)
+    }
+  }
+
+  // Write the repaired settings back so the record loads cleanly from now on
+  const repairAvatar = async (avatar: SavedAvatar) => {
+    if (!user?.id) return
+    try {
+      const outcome = await persistAvatar(user.id, avatar.id, avatar.name, avatar.settings, { stored: avatar })
+      setLibraryVersion(version => version + 1)
+      if (outcome === 'synced') {
+        toast.success(`Repaired "${avatar.name}"`)
+      }
+    } catch (error) {
+      console.error('Error repairing avatar:', error)
+      toast.error('Failed to repair avatar')
+    }
   }
 
-  const deleteAvatar = async (avatarId: string, avatarName: string) => {
-    if (!confirm(`Are you sure you want to delete "${avatarName}"?`)) return
+  // Deleting only moves avatars to the trash; the toast offers to take it back right away
+  const deleteAvatars = async (avatars: SavedAvatar[]) => {
+    const description = avatars.length === 1 ? `"${avatars[0].name}"` : `${avatars.length} avatars`
 
     try {
-      await blink.db.avatars.delete(avatarId)
+      await moveToTrash(avatars.map(avatar => avatar.id))
       await loadSavedAvatars()
-      toast.success('Avatar deleted successfully!')
-      
-      if (currentAvatarId === avatarId) {
+
+      if (avatars.some(avatar => avatar.id === currentAvatarId)) {
         setCurrentAvatarId(null)
         setAvatarName('')
       }
+
+      toast((t) => (
+        <span className="flex items-center">
+          Moved {description} to the trash
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              toast.dismiss(t.id)
+              restoreAvatars(avatars)
+            }}
+            className="ml-3 h-6 text-xs"
+          >
+            Undo
+          </Button>
+        </span>
+      ), { duration: 8000 })
     } catch (error) {
       console.error('Error deleting avatar:', error)
       toast.error('Failed to delete avatar')
     }
   }
 
+  const restoreAvatars = async (avatars: SavedAvatar[]) => {
+    try {
+      await restoreFromTrash(avatars.map(avatar => avatar.id))
+      await loadSavedAvatars()
+      toast.success(avatars.length === 1 ? `Restored "${avatars[0].name}"` : `Restored ${avatars.length} avatars`)
+    } catch (error) {
+      console.error('Error restoring avatar:', error)
+      toast.error('Failed to restore avatar')
+    }
+  }
+
+  const editAvatar = (label: string, update: (prev: AvatarSettings) => AvatarSettings, coalesceKey?: string) => {
+    history.commit(label, state => ({ ...state, avatar: update(state.avatar) }), coalesceKey)
+  }
+
+  // Slider drags arrive as a stream of values; they coalesce per setting into one step
   const updateSetting = (key: keyof AvatarSettings, value: number | string) => {
-    setAvatarSettings(prev => ({ ...prev, [key]: value }))
+    editAvatar(`Changed ${SETTING_LABELS[key]}`, prev => ({ ...prev, [key]: value }), `setting:${key}`)
   }
 
-  const updateMultipleSettings = (updates: Partial<AvatarSettings>) => {
-    setAvatarSettings(prev => ({ ...prev, ...updates }))
+  const applyAnalysis = (updates: Partial<AvatarSettings>) => {
+    editAvatar('Applied AI analysis', prev => ({ ...prev, ...updates }))
+  }
+
+  const updateLighting = (lighting: LightingSettings, label?: string) => {
+    const changed = (Object.keys(lighting) as (keyof LightingSettings)[])
+      .filter(key => JSON.stringify(lighting[key]) !== JSON.stringify(lightingSettings[key]))
+    history.commit(
+      label ?? 'Adjusted lighting',
+      state => ({ ...state, lighting }),
+      label ? undefined : `lighting:${changed.join(',')}`
+    )
   }
 
   const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -261,21 +556,7 @@ function App() {
   }
 
   const resetToDefaults = () => {
-    setAvatarSettings({
-      gender: 'male',
-      height: 180,
-      muscle: 50,
-      bodyFat: 20,
-      shoulderWidth: 50,
-      waistSize: 50,
-      skinTone: 50,
-      facialStructure: 50,
-      eyeSize: 50,
-      noseSize: 50,
-      mouthSize: 50,
-      hairStyle: 1,
-      hairColor: 50
-    })
+    editAvatar('Reset to defaults', () => DEFAULT_AVATAR_SETTINGS)
     setUploadedPhoto(null)
     setActivePreset(null)
     setCurrentAvatarId(null)
@@ -288,6 +569,25 @@ function App() {
     toast.success(`Avatar exported as ${format}`)
   }
 
+  const quickExport = async () => {
+    if (!avatarCanvas) {
+      toast.error('3D viewport is not ready yet')
+      return
+    }
+
+    try {
+      const blob = await renderAvatarImage(avatarCanvas, {
+        ...RENDER_RESOLUTIONS[renderQuality],
+        format: 'png'
+      })
+      downloadBlob(blob, `avatar-${avatarSettings.gender}-${Date.now()}.png`)
+      toast.success(`Exported ${renderQuality} PNG`)
+    } catch (error) {
+      console.error('Quick export failed:', error)
+      toast.error('Quick export failed')
+    }
+  }
+
   const handleAvatarGenerated = (avatarUrl: string, avatarId: string) => {
     setGeneratedAvatarUrl(avatarUrl)
     setGeneratedAvatarId(avatarId)
@@ -299,8 +599,8 @@ function App() {
     toast.success('Enhanced texture generated!')
   }
 
-  const applyPreset = (presetSettings: Partial<AvatarSettings>) => {
-    setAvatarSettings(prev => ({ ...prev, ...presetSettings }))
+  const applyPreset = (presetSettings: Partial<AvatarSettings>, presetName?: string) => {
+    editAvatar(presetName ? `Applied preset ${presetName}` : 'Applied preset', prev => ({ ...prev, ...presetSettings }))
     setActivePreset('applied')
     toast.success('Preset applied!')
   }
@@ -322,6 +622,57 @@ function App() {
     toast.success('Custom GLB model removed')
   }
 
+  const currentDefinition = (): AvatarDefinitionContent => ({
+    name: savedAvatars.find(avatar => avatar.id === currentAvatarId)?.name || avatarName.trim() || 'Untitled Avatar',
+    settings: avatarSettings,
+    lighting: lightingSettings,
+    customModel: customGLBModel ? { url: customGLBModel, name: customModelName || 'Custom model' } : null,
+    texture: textureParams
+  })
+
+  const exportDefinition = () => {
+    const definition = currentDefinition()
+    const blob = new Blob([serializeAvatarDefinition(definition)], { type: 'application/json' })
+    downloadBlob(blob, `${slugify(definition.name)}.avatar.json`)
+    toast.success(`Exported definition "${definition.name}"`)
+  }
+
+  const handleDefinitionFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so picking the same file again still fires a change
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const { definition, issues } = parseAvatarDefinition(await file.text())
+      setPendingImport({
+        fileName: file.name,
+        definition,
+        issues,
+        changes: diffAvatarDefinitions(currentDefinition(), definition)
+      })
+    } catch (error) {
+      console.error('Error reading avatar definition:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to read avatar definition')
+    }
+  }
+
+  const applyImport = () => {
+    if (!pendingImport) return
+    const { definition } = pendingImport
+
+    history.commit(`Imported "${definition.name}"`, () => ({ avatar: definition.settings, lighting: definition.lighting }))
+    setCustomGLBModel(definition.customModel?.url ?? null)
+    setCustomModelName(definition.customModel?.name ?? null)
+    setTextureParams(definition.texture)
+    // An imported avatar is saved as a new record under its own name
+    setCurrentAvatarId(null)
+    setAvatarName(definition.name)
+    setActivePreset(null)
+    setPendingImport(null)
+    toast.success(`Imported "${definition.name}"`)
+  }
+
   // Error state
   if (error) {
     return (
@@ -368,6 +719,16 @@ function App() {
     )
   }
 
+  // Share links open read-only until the visitor signs in
+  if (!user && sharedAvatar) {
+    return (
+      <>
+        <Toaster position="top-right" />
+        <SharedAvatarPreview shared={sharedAvatar} onSignIn={() => blink.auth.login()} />
+      </>
+    )
+  }
+
   // Auth required state
   if (!user) {
     return (
@@ -403,6 +764,13 @@ function App() {
   return (
     <>
       <Toaster position="top-right" />
+      <DefinitionImportDialog
+        fileName={pendingImport?.fileName ?? null}
+        changes={pendingImport?.changes ?? []}
+        issues={pendingImport?.issues ?? []}
+        onApply={applyImport}
+        onCancel={() => setPendingImport(null)}
+      />
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-slate-100">
         {/* Header */}
         <header className="border-b border-slate-700 bg-slate-900/50 backdrop-blur-sm">
@@ -433,6 +801,16 @@ function App() {
                       Custom Model
                     </Badge>
                   )}
+                  {user && (
+                    <SyncStatusIndicator
+                      status={avatarSync.status}
+                      pendingCount={avatarSync.pendingCount}
+                      conflicts={avatarSync.conflicts}
+                      lastSyncedAt={avatarSync.lastSyncedAt}
+                      onSyncNow={avatarSync.sync}
+                      onResolve={avatarSync.resolve}
+                    />
+                  )}
                 </div>
                 
                 {/* Avatar Management */}
@@ -446,48 +824,39 @@ function App() {
                     <DialogTrigger asChild>
                       <Button variant="outline" size="sm">
                         <Grid3x3 className="w-4 h-4 mr-1" />
-                        <span className="hidden sm:inline">Load ({savedAvatars.length}/10)</span>
+                        <span className="hidden sm:inline">Library ({savedAvatars.length})</span>
                         <span className="sm:hidden">Load</span>
                       </Button>
                     </DialogTrigger>
-                  <DialogContent className="bg-slate-800 border-slate-600">
+                  <DialogContent className="bg-slate-800 border-slate-600 max-w-3xl">
                     <DialogHeader>
-                      <DialogTitle className="text-slate-100">Load Avatar</DialogTitle>
+                      <DialogTitle className="text-slate-100">Avatar Library</DialogTitle>
                     </DialogHeader>
-                    <div className="grid grid-cols-2 gap-4 max-h-96 overflow-y-auto">
-                      {savedAvatars.length === 0 ? (
-                        <div className="col-span-2 text-center py-8 text-slate-400">
-                          <User className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                          <p>No saved avatars yet</p>
-                        </div>
-                      ) : (
-                        savedAvatars.map((avatar) => (
-                          <div key={avatar.id} className="bg-slate-700 rounded-lg p-3">
-                            <div className="flex justify-between items-start mb-2">
-                              <h4 className="font-medium text-slate-200 text-sm">{avatar.name}</h4>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => deleteAvatar(avatar.id, avatar.name)}
-                                className="text-red-400 hover:text-red-300 p-1"
-                              >
-                                <Trash2 className="w-3 h-3" />
-                              </Button>
-                            </div>
-                            <div className="text-xs text-slate-400 mb-3">
-                              {new Date(avatar.createdAt).toLocaleDateString()}
-                            </div>
-                            <Button
-                              size="sm"
-                              onClick={() => loadAvatar(avatar)}
-                              className="w-full text-xs"
-                            >
-                              Load Avatar
-                            </Button>
-                          </div>
-                        ))
-                      )}
-                    </div>
+                    <Tabs defaultValue="library">
+                      <TabsList className="grid w-full grid-cols-2">
+                        <TabsTrigger value="library">Library</TabsTrigger>
+                        <TabsTrigger value="trash">
+                          <Trash2 className="w-3 h-3 mr-1" />
+                          Trash
+                        </TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="library">
+                        <AvatarLibrary
+                          userId={user?.id}
+                          currentAvatarId={currentAvatarId}
+                          savedAvatars={savedAvatars}
+                          reloadToken={libraryVersion}
+                          onLoad={loadAvatar}
+                          onRepair={repairAvatar}
+                          onDelete={deleteAvatars}
+                          onChanged={loadSavedAvatars}
+                          offline={avatarSync.status === 'offline'}
+                        />
+                      </TabsContent>
+                      <TabsContent value="trash">
+                        <TrashBin userId={user?.id} reloadToken={libraryVersion} onRestore={restoreAvatars} offline={avatarSync.status === 'offline'} />
+                      </TabsContent>
+                    </Tabs>
                   </DialogContent>
                 </Dialog>
 
@@ -518,10 +887,10 @@ function App() {
                       <div className="flex space-x-2">
                         <Button 
                           onClick={saveAvatar}
-                          disabled={!avatarName.trim()}
+                          disabled={!avatarName.trim() || isSaving}
                           className="flex-1"
                         >
-                          {currentAvatarId ? 'Update' : 'Save'} Avatar
+                          {isSaving ? 'Saving...' : `${currentAvatarId ? 'Update' : 'Save'} Avatar`}
                         </Button>
                         <Button 
                           variant="outline" 
@@ -535,6 +904,46 @@ function App() {
                   </DialogContent>
                 </Dialog>
 
+                  {currentAvatarId && (
+                    <Dialog open={showRevisionsDialog} onOpenChange={setShowRevisionsDialog}>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" size="sm" title="Revision history">
+                          <History className="w-4 h-4 mr-1" />
+                          <span className="hidden sm:inline">Revisions</span>
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="bg-slate-800 border-slate-600 max-w-3xl">
+                        <DialogHeader>
+                          <DialogTitle className="text-slate-100">
+                            Revisions of {savedAvatars.find(avatar => avatar.id === currentAvatarId)?.name ?? 'this avatar'}
+                          </DialogTitle>
+                        </DialogHeader>
+                        <RevisionHistory
+                          avatarId={currentAvatarId}
+                          reloadToken={libraryVersion}
+                          onRestore={restoreRevision}
+                        />
+                      </DialogContent>
+                    </Dialog>
+                  )}
+
+                  <Button variant="outline" size="sm" onClick={exportDefinition} title="Export definition (JSON)">
+                    <FileDown className="w-4 h-4 mr-1" />
+                    <span className="hidden sm:inline">Export</span>
+                  </Button>
+
+                  <Button variant="outline" size="sm" onClick={() => definitionInputRef.current?.click()} title="Import definition (JSON)">
+                    <FileUp className="w-4 h-4 mr-1" />
+                    <span className="hidden sm:inline">Import</span>
+                  </Button>
+                  <input
+                    ref={definitionInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleDefinitionFile}
+                    className="hidden"
+                  />
+
                   <Button variant="outline" size="sm" onClick={resetToDefaults}>
                     <RotateCcw className="w-4 h-4 mr-1" />
                     <span className="hidden sm:inline">Reset</span>
@@ -599,9 +1008,17 @@ function App() {
                   {/* 3D Avatar Component with error boundary */}
                   <div className="w-full h-full">
                     <ImprovedAvatar3D 
-                      settings={avatarSettings}
+                      settings={previewAvatar?.settings ?? avatarSettings}
                       lighting={lightingSettings}
-                      customModelUrl={customGLBModel}
+                      customModelUrl={previewAvatar ? previewAvatar.customModel?.url ?? null : customGLBModel}
+                      onCanvasReady={setAvatarCanvas}
+                      pose={poseRotations}
+                      poseEditing={isPoseEditing && !customGLBModel}
+                      onPoseChange={editPose}
+                      playback={playback}
+                      motions={motions}
+                      onClipsChange={setAnimationClips}
+                      onTimelineChange={setAnimationTimeline}
                     />
                   </div>
 
@@ -615,7 +1032,7 @@ function App() {
                       <Play className="w-4 h-4 mr-2" />
                       {isGenerating ? 'Generating...' : 'Generate HD Avatar'}
                     </Button>
-                    <Button variant="outline" className="border-slate-600">
+                    <Button variant="outline" className="border-slate-600" onClick={quickExport}>
                       <Download className="w-4 h-4 mr-2" />
                       Quick Export
                     </Button>
@@ -720,9 +1137,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.height]}
                         onValueChange={(value) => updateSetting('height', value[0])}
-                        min={170}
-                        max={210}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.height.min}
+                        max={SETTING_RANGES.height.max}
+                        step={SETTING_RANGES.height.step}
                         className="w-full"
                       />
                     </div>
@@ -733,9 +1151,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.muscle]}
                         onValueChange={(value) => updateSetting('muscle', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.muscle.min}
+                        max={SETTING_RANGES.muscle.max}
+                        step={SETTING_RANGES.muscle.step}
                         className="w-full"
                       />
                     </div>
@@ -746,9 +1165,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.bodyFat]}
                         onValueChange={(value) => updateSetting('bodyFat', value[0])}
-                        min={5}
-                        max={40}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.bodyFat.min}
+                        max={SETTING_RANGES.bodyFat.max}
+                        step={SETTING_RANGES.bodyFat.step}
                         className="w-full"
                       />
                     </div>
@@ -759,9 +1179,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.shoulderWidth]}
                         onValueChange={(value) => updateSetting('shoulderWidth', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.shoulderWidth.min}
+                        max={SETTING_RANGES.shoulderWidth.max}
+                        step={SETTING_RANGES.shoulderWidth.step}
                         className="w-full"
                       />
                     </div>
@@ -774,9 +1195,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.facialStructure]}
                         onValueChange={(value) => updateSetting('facialStructure', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.facialStructure.min}
+                        max={SETTING_RANGES.facialStructure.max}
+                        step={SETTING_RANGES.facialStructure.step}
                         className="w-full"
                       />
                     </div>
@@ -787,9 +1209,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.eyeSize]}
                         onValueChange={(value) => updateSetting('eyeSize', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.eyeSize.min}
+                        max={SETTING_RANGES.eyeSize.max}
+                        step={SETTING_RANGES.eyeSize.step}
                         className="w-full"
                       />
                     </div>
@@ -800,9 +1223,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.noseSize]}
                         onValueChange={(value) => updateSetting('noseSize', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.noseSize.min}
+                        max={SETTING_RANGES.noseSize.max}
+                        step={SETTING_RANGES.noseSize.step}
                         className="w-full"
                       />
                     </div>
@@ -813,9 +1237,38 @@ function App() {
                       <Slider
                         value={[avatarSettings.mouthSize]}
                         onValueChange={(value) => updateSetting('mouthSize', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.mouthSize.min}
+                        max={SETTING_RANGES.mouthSize.max}
+                        step={SETTING_RANGES.mouthSize.step}
+                        className="w-full"
+                      />
+                    </div>
+
+                    {/* Jaw Width */}
+                    <div className="space-y-2">
+                      <Label>Jaw Width: {avatarSettings.jawWidth}%</Label>
+                      <Slider
+                        value={[avatarSettings.jawWidth]}
+                        onValueChange={(value) => updateSetting('jawWidth', value[0])}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.jawWidth.min}
+                        max={SETTING_RANGES.jawWidth.max}
+                        step={SETTING_RANGES.jawWidth.step}
+                        className="w-full"
+                      />
+                    </div>
+
+                    {/* Cheekbones */}
+                    <div className="space-y-2">
+                      <Label>Cheekbones: {avatarSettings.cheekbones}%</Label>
+                      <Slider
+                        value={[avatarSettings.cheekbones]}
+                        onValueChange={(value) => updateSetting('cheekbones', value[0])}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.cheekbones.min}
+                        max={SETTING_RANGES.cheekbones.max}
+                        step={SETTING_RANGES.cheekbones.step}
                         className="w-full"
                       />
                     </div>
@@ -828,9 +1281,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.skinTone]}
                         onValueChange={(value) => updateSetting('skinTone', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.skinTone.min}
+                        max={SETTING_RANGES.skinTone.max}
+                        step={SETTING_RANGES.skinTone.step}
                         className="w-full"
                       />
                     </div>
@@ -859,9 +1313,10 @@ function App() {
                       <Slider
                         value={[avatarSettings.hairColor]}
                         onValueChange={(value) => updateSetting('hairColor', value[0])}
-                        min={0}
-                        max={100}
-                        step={1}
+                        onValueCommit={history.seal}
+                        min={SETTING_RANGES.hairColor.min}
+                        max={SETTING_RANGES.hairColor.max}
+                        step={SETTING_RANGES.hairColor.step}
                         className="w-full"
                       />
                     </div>
@@ -899,6 +1354,7 @@ function App() {
                       
                       {/* GLB Uploader */}
                       <GLBUploader
+                        userId={user.id}
                         onModelUploaded={handleGLBModelUploaded}
                         onModelRemoved={handleGLBModelRemoved}
                         currentModel={customGLBModel}
@@ -917,12 +1373,48 @@ function App() {
                   <TabsContent value="lighting" className="mt-4">
                     <LightingControls 
                       lighting={lightingSettings}
-                      onLightingChange={setLightingSettings}
+                      onLightingChange={updateLighting}
                     />
                   </TabsContent>
                 </Tabs>
               </Card>
 
+              {/* Pose Library */}
+              <PoseLibrary
+                poses={poses}
+                activePoseId={activePoseId}
+                isEditing={isPoseEditing}
+                available={!customGLBModel}
+                canSave={Boolean(user?.id)}
+                onSelect={selectPose}
+                onEditingChange={changePoseEditing}
+                onSave={saveCurrentPose}
+                onDelete={removePose}
+              />
+
+              {/* Animation Playback */}
+              <AnimationPanel
+                clips={describeClips(animationClips)}
+                fromModel={Boolean(customGLBModel)}
+                playback={playback}
+                timeline={animationTimeline}
+                onPlaybackChange={updatePlayback}
+                importedClips={motions.map(motion => motion.name)}
+                onImport={importMotion}
+                onRemoveImported={removeMotion}
+              />
+
+              {/* Edit History */}
+              <HistoryPanel
+                steps={history.steps}
+                index={history.index}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                onJump={history.jumpTo}
+              />
+
               {/* Ready Player Me Integration */}
               <ReadyPlayerMeAPI 
                 settings={avatarSettings}
@@ -933,6 +1425,8 @@ function App() {
               {/* HD Texture Enhancement */}
               <TextureEnhancer 
                 settings={avatarSettings}
+                params={textureParams}
+                onParamsChange={setTextureParams}
                 onTextureGenerated={handleTextureGenerated}
               />
 
@@ -940,12 +1434,25 @@ function App() {
               <AvatarML 
                 uploadedPhoto={uploadedPhoto}
                 settings={avatarSettings}
-                onSettingsUpdate={updateMultipleSettings}
+                onSettingsUpdate={applyAnalysis}
               />
 
               {/* Export Panel */}
               <ExportPanel 
                 settings={avatarSettings}
+                lighting={lightingSettings}
+                canvas={avatarCanvas}
+                avatarName={savedAvatars.find(avatar => avatar.id === currentAvatarId)?.name}
+                author={user?.displayName || user?.email}
+                userId={user?.id}
+                avatarId={currentAvatarId}
+                savedAvatars={savedAvatars}
+                poses={poses}
+                animations={animationClips}
+                onApplyAvatar={setPreviewAvatar}
+                skinTextureUrl={enhancedTexture}
+                renderQuality={renderQuality}
+                onRenderQualityChange={setRenderQuality}
                 onExport={handleExport}
               />
 
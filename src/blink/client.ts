@@ -2,5 +2,6 @@ import { createClient } from '@blinkdotnew/sdk'
 
 export const blink = createClient({
   projectId: 'hd-avatar-creator-9ozcxn1f',
-  authRequired: true
+  // Signed-out visitors can still open share links; App gates the editor itself
+  authRequired: false
 })
\ No newline at end of file
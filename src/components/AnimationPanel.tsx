@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { Label } from './ui/label'
+import { Slider } from './ui/slider'
+import { Switch } from './ui/switch'
+import { Film, Play, Pause, Square, Upload, Trash2 } from 'lucide-react'
+import type { AnimationClipInfo, AnimationPlayback, AnimationTimeline } from '../lib/avatar/animation'
+
+interface AnimationPanelProps {
+  clips: AnimationClipInfo[]
+  // Clips come from the uploaded model rather than the built-in locomotion set
+  fromModel: boolean
+  playback: AnimationPlayback
+  timeline: AnimationTimeline | null
+  onPlaybackChange: (patch: Partial<AnimationPlayback>) => void
+  // Names of the clips retargeted from imported BVH takes; these are listed apart and can be removed
+  importedClips: string[]
+  onImport: (file: File) => void
+  onRemoveImported: (name: string) => void
+}
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`
+
+export default function AnimationPanel({ clips, fromModel, playback, timeline, onPlaybackChange, importedClips, onImport, onRemoveImported }: AnimationPanelProps) {
+  const [time, setTime] = useState(0)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const ownClips = clips.filter((clip) => !importedClips.includes(clip.name))
+  const motionClips = clips.filter((clip) => importedClips.includes(clip.name))
+
+  // The mixer's clock runs in the viewport; follow it here without re-rendering the app
+  useEffect(() => {
+    if (!timeline) {
+      setTime(0)
+      return
+    }
+    let frame = requestAnimationFrame(function follow() {
+      setTime(timeline.getTime())
+      frame = requestAnimationFrame(follow)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [timeline])
+
+  const togglePlaying = () => {
+    // A one-shot clip that has finished starts over
+    if (!playback.playing && timeline && !playback.loop && time >= timeline.duration) {
+      timeline.seek(0)
+    }
+    onPlaybackChange({ playing: !playback.playing })
+  }
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so picking the same file again still fires a change
+    event.target.value = ''
+    if (file) onImport(file)
+  }
+
+  const clipButton = (clip: AnimationClipInfo) => (
+    <Button
+      key={clip.name}
+      size="sm"
+      variant={playback.clip === clip.name ? 'default' : 'outline'}
+      onClick={() => onPlaybackChange({ clip: clip.name, playing: true })}
+      title={`${clip.name} (${formatTime(clip.duration)})`}
+      className="h-7 px-2 text-xs border-slate-600 truncate"
+    >
+      {clip.name || 'Untitled'}
+    </Button>
+  )
+
+  return (
+    <Card className="glass-panel border-slate-600 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <Film className="w-4 h-4 mr-2 text-blue-400" />
+          Animation
+        </h3>
+        <div className="flex space-x-1">
+          <input ref={fileInputRef} type="file" accept=".bvh" onChange={handleFile} className="hidden" />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import a BVH motion capture clip"
+            className="h-7 px-2 text-xs border-slate-600"
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            BVH
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={togglePlaying}
+            disabled={!playback.clip}
+            title={playback.playing ? 'Pause' : 'Play'}
+            className="h-7 px-2 border-slate-600"
+          >
+            {playback.playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onPlaybackChange({ clip: null })}
+            disabled={!playback.clip}
+            title="Stop and return to the pose"
+            className="h-7 px-2 border-slate-600"
+          >
+            <Square className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {clips.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          {fromModel ? 'This model has no embedded animations.' : 'Animations load with the avatar.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {ownClips.length > 0 && (
+            <div>
+              <div className="text-xs text-slate-400 mb-2">
+                {fromModel ? 'Clips embedded in the model' : 'Built-in locomotion'}
+              </div>
+              <div className="grid grid-cols-3 gap-1 max-h-32 overflow-y-auto">
+                {ownClips.map(clipButton)}
+              </div>
+            </div>
+          )}
+
+          {motionClips.length > 0 && (
+            <div>
+              <div className="text-xs text-slate-400 mb-2">Motion capture</div>
+              <div className="grid grid-cols-2 gap-1 max-h-32 overflow-y-auto">
+                {motionClips.map((clip) => (
+                  <div key={clip.name} className="flex items-center">
+                    <div className="flex-1 grid">{clipButton(clip)}</div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onRemoveImported(clip.name)}
+                      title={`Remove ${clip.name}`}
+                      className="h-7 w-7 p-0 text-slate-400 hover:text-red-400"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-xs">
+              Time: {formatTime(time)}{timeline ? ` / ${formatTime(timeline.duration)}` : ''}
+            </Label>
+            <Slider
+              value={[time]}
+              onValueChange={(value) => timeline?.seek(value[0])}
+              min={0}
+              max={timeline?.duration || 1}
+              step={0.01}
+              disabled={!timeline}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Speed: {playback.speed.toFixed(2)}×</Label>
+            <Slider
+              value={[playback.speed]}
+              onValueChange={(value) => onPlaybackChange({ speed: value[0] })}
+              min={0.1}
+              max={2}
+              step={0.05}
+              className="w-full"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Cross-fade: {playback.crossFade.toFixed(1)}s</Label>
+            <Slider
+              value={[playback.crossFade]}
+              onValueChange={(value) => onPlaybackChange({ crossFade: value[0] })}
+              min={0}
+              max={2}
+              step={0.1}
+              className="w-full"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="animation-loop" className="text-xs text-slate-400">Loop</Label>
+            <Switch id="animation-loop" checked={playback.loop} onCheckedChange={(loop) => onPlaybackChange({ loop })} />
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
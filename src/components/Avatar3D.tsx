@@ -3,23 +3,10 @@ import { Canvas, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls, Environment, ContactShadows, Text, PerspectiveCamera } from '@react-three/drei'
 import { Mesh, BoxGeometry, SphereGeometry, CylinderGeometry, Group, DirectionalLight, AmbientLight, Material } from 'three'
 import * as THREE from 'three'
+import type { AvatarSettings } from '../lib/avatar/settings'
 
 interface Avatar3DProps {
-  settings: {
-    gender: 'male' | 'female' | 'non-binary'
-    height: number
-    muscle: number
-    bodyFat: number
-    shoulderWidth: number
-    waistSize: number
-    skinTone: number
-    facialStructure: number
-    eyeSize: number
-    noseSize: number
-    mouthSize: number
-    hairStyle: number
-    hairColor: number
-  }
+  settings: AvatarSettings
   lighting: {
     ambientIntensity: number
     directionalIntensity: number
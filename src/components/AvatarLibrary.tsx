@@ -0,0 +1,527 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Search, Grid3x3, List, ArrowDown, ArrowUp, Trash2, User, Loader2, Star, Folder, Tag, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+import {
+  collectOrganization,
+  filterAvatarsLocally,
+  listAvatarPage,
+  normalizeFolder,
+  normalizeTag,
+  organizeAvatars,
+  type AvatarOrganizationUpdate,
+  type AvatarSortField,
+  type SavedAvatar
+} from '../lib/avatar/library'
+
+interface AvatarLibraryProps {
+  userId?: string | null
+  currentAvatarId: string | null
+  // Every saved avatar, for the folder and tag filters
+  savedAvatars: SavedAvatar[]
+  // Bump to refetch from the first page after saves, repairs and deletes
+  reloadToken: number
+  onLoad: (avatar: SavedAvatar) => void
+  onRepair: (avatar: SavedAvatar) => void
+  onDelete: (avatars: SavedAvatar[]) => void
+  // Called after tags, folders or favourites were written, so the caller can reload
+  onChanged: () => void
+  // Backend unreachable: list the local copies in savedAvatars instead of querying, and
+  // disable the organizing and deleting that only the server can do
+  offline?: boolean
+}
+
+const PAGE_SIZE = 12
+const SEARCH_DEBOUNCE_MS = 300
+
+const SORT_FIELDS: { id: AvatarSortField; label: string }[] = [
+  { id: 'created_at', label: 'Created' },
+  { id: 'updated_at', label: 'Updated' }
+]
+
+function Thumbnail({ avatar, className }: { avatar: SavedAvatar; className: string }) {
+  return avatar.thumbnailUrl ? (
+    <img src={avatar.thumbnailUrl} alt={avatar.name} loading="lazy" className={`${className} object-cover bg-slate-800`} />
+  ) : (
+    <div className={`${className} bg-slate-800 flex items-center justify-center`}>
+      <User className="w-1/3 h-1/3 text-slate-600" />
+    </div>
+  )
+}
+
+const toggle = (list: string[], id: string) => list.includes(id) ? list.filter(item => item !== id) : [...list, id]
+
+export default function AvatarLibrary({ userId, currentAvatarId, savedAvatars, reloadToken, onLoad, onRepair, onDelete, onChanged, offline = false }: AvatarLibraryProps) {
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [sortBy, setSortBy] = useState<AvatarSortField>('created_at')
+  const [direction, setDirection] = useState<'asc' | 'desc'>('desc')
+  const [layout, setLayout] = useState<'grid' | 'list'>('grid')
+  const [avatars, setAvatars] = useState<SavedAvatar[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  // Undefined shows every folder, null only avatars outside any folder
+  const [folderFilter, setFolderFilter] = useState<string | null | undefined>(undefined)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+  const [favoritesOnly, setFavoritesOnly] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [folderInput, setFolderInput] = useState('')
+  const [tagInput, setTagInput] = useState('')
+  const [isOrganizing, setIsOrganizing] = useState(false)
+
+  const { folders, tags } = collectOrganization(savedAvatars)
+  const selected = avatars.filter(avatar => selectedIds.includes(avatar.id))
+  const query = { search, sortBy, direction, folder: folderFilter, tag: tagFilter ?? undefined, favoritesOnly }
+  // Only followed while offline, so background syncs don't refetch the server list
+  const localAvatars = offline ? savedAvatars : null
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  // Any change to the query starts over from the first page
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    const loadFirstPage = async () => {
+      const filters = { search, sortBy, direction, folder: folderFilter, tag: tagFilter ?? undefined, favoritesOnly }
+      if (localAvatars) {
+        const matches = filterAvatarsLocally(localAvatars, filters)
+        setAvatars(matches)
+        setNextCursor(null)
+        setSelectedIds(prev => prev.filter(id => matches.some(avatar => avatar.id === id)))
+        return
+      }
+
+      setIsLoading(true)
+      try {
+        const page = await listAvatarPage({ userId, ...filters }, null, PAGE_SIZE)
+        if (cancelled) return
+        setAvatars(page.avatars)
+        setNextCursor(page.nextCursor)
+        // Keep the selection to avatars that are still listed
+        setSelectedIds(prev => prev.filter(id => page.avatars.some(avatar => avatar.id === id)))
+      } catch (error) {
+        console.error('Error loading avatar library:', error)
+        toast.error('Failed to load saved avatars')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadFirstPage()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, search, sortBy, direction, folderFilter, tagFilter, favoritesOnly, reloadToken, localAvatars])
+
+  const loadMore = async () => {
+    if (!userId || !nextCursor) return
+    setIsLoading(true)
+    try {
+      const page = await listAvatarPage({ userId, ...query }, nextCursor, PAGE_SIZE)
+      setAvatars(prev => [...prev, ...page.avatars])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error('Error loading avatar library:', error)
+      toast.error('Failed to load more avatars')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const organize = async (updates: AvatarOrganizationUpdate[], message: string) => {
+    setIsOrganizing(true)
+    try {
+      await organizeAvatars(updates)
+      toast.success(message)
+      onChanged()
+    } catch (error) {
+      console.error('Error organizing avatars:', error)
+      toast.error('Failed to update avatars')
+    } finally {
+      setIsOrganizing(false)
+    }
+  }
+
+  const toggleFavorite = (avatar: SavedAvatar) =>
+    organize(
+      [{ id: avatar.id, isFavorite: !avatar.isFavorite }],
+      avatar.isFavorite ? `Removed "${avatar.name}" from favourites` : `Added "${avatar.name}" to favourites`
+    )
+
+  const removeTag = (avatar: SavedAvatar, tag: string) =>
+    organize([{ id: avatar.id, tags: avatar.tags.filter(existing => existing !== tag) }], `Removed tag "${tag}"`)
+
+  const moveSelected = () => {
+    const folder = normalizeFolder(folderInput)
+    organize(
+      selected.map(avatar => ({ id: avatar.id, folder })),
+      folder ? `Moved ${selected.length} to "${folder}"` : `Removed ${selected.length} from their folder`
+    )
+    setFolderInput('')
+  }
+
+  const tagSelected = () => {
+    const tag = normalizeTag(tagInput)
+    if (!tag) return
+    organize(
+      selected
+        .filter(avatar => !avatar.tags.includes(tag))
+        .map(avatar => ({ id: avatar.id, tags: [...avatar.tags, tag] })),
+      `Tagged ${selected.length} with "${tag}"`
+    )
+    setTagInput('')
+  }
+
+  const favoriteSelected = () => {
+    // Favourite the whole selection unless every avatar in it already is one
+    const isFavorite = !selected.every(avatar => avatar.isFavorite)
+    organize(
+      selected.map(avatar => ({ id: avatar.id, isFavorite })),
+      `${isFavorite ? 'Added' : 'Removed'} ${selected.length} ${isFavorite ? 'to' : 'from'} favourites`
+    )
+  }
+
+  const renderOrganization = (avatar: SavedAvatar) => (avatar.folder || avatar.tags.length > 0) && (
+    <div className="flex flex-wrap gap-1 mb-2">
+      {avatar.folder && (
+        <Badge variant="outline" className="border-blue-500/50 text-blue-300 text-[10px]">
+          <Folder className="w-2.5 h-2.5 mr-1" />
+          {avatar.folder}
+        </Badge>
+      )}
+      {avatar.tags.map((tag) => (
+        <Badge key={tag} variant="outline" className="border-slate-500 text-slate-300 text-[10px]">
+          {tag}
+          <button onClick={() => removeTag(avatar, tag)} disabled={offline} className="ml-1 hover:text-red-300 disabled:opacity-50" title={`Remove tag "${tag}"`}>
+            <X className="w-2.5 h-2.5" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  )
+
+  const renderFavorite = (avatar: SavedAvatar) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => toggleFavorite(avatar)}
+      disabled={offline}
+      title={avatar.isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+      className="p-1 h-auto"
+    >
+      <Star className={`w-3 h-3 ${avatar.isFavorite ? 'fill-yellow-400 text-yellow-400' : 'text-slate-400'}`} />
+    </Button>
+  )
+
+  const renderIssues = (avatar: SavedAvatar) => avatar.issues.length > 0 && (
+    <div className="mt-2 p-2 bg-amber-500/10 border border-amber-500/30 rounded text-xs">
+      <div className="text-amber-400 font-medium mb-1">Needs repair</div>
+      <ul className="text-slate-400 space-y-0.5 mb-2">
+        {avatar.issues.map((issue) => (
+          <li key={issue.field}>{issue.field}: {issue.message}</li>
+        ))}
+      </ul>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onRepair(avatar)}
+        className="w-full h-6 text-xs border-amber-500/50"
+      >
+        Repair
+      </Button>
+    </div>
+  )
+
+  const renderDate = (avatar: SavedAvatar) => (
+    <span>
+      {sortBy === 'updated_at' ? 'Updated' : 'Created'}{' '}
+      {new Date(sortBy === 'updated_at' ? avatar.updatedAt : avatar.createdAt).toLocaleDateString()}
+    </span>
+  )
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by name..."
+            className="pl-8 bg-slate-700 border-slate-600 text-slate-100"
+          />
+        </div>
+        <div className="flex space-x-1">
+          {SORT_FIELDS.map((field) => (
+            <Button
+              key={field.id}
+              size="sm"
+              variant={sortBy === field.id ? 'default' : 'outline'}
+              onClick={() => setSortBy(field.id)}
+              className="text-xs"
+            >
+              {field.label}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setDirection(direction === 'desc' ? 'asc' : 'desc')}
+            title={direction === 'desc' ? 'Newest first' : 'Oldest first'}
+            className="border-slate-600"
+          >
+            {direction === 'desc' ? <ArrowDown className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+          </Button>
+        </div>
+        <div className="flex space-x-1">
+          <Button
+            size="sm"
+            variant={layout === 'grid' ? 'default' : 'outline'}
+            onClick={() => setLayout('grid')}
+            title="Grid view"
+          >
+            <Grid3x3 className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant={layout === 'list' ? 'default' : 'outline'}
+            onClick={() => setLayout('list')}
+            title="List view"
+          >
+            <List className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-1">
+        <Button
+          size="sm"
+          variant={folderFilter === undefined && !tagFilter && !favoritesOnly ? 'default' : 'outline'}
+          onClick={() => {
+            setFolderFilter(undefined)
+            setTagFilter(null)
+            setFavoritesOnly(false)
+          }}
+          className="h-6 px-2 text-xs"
+        >
+          All
+        </Button>
+        <Button
+          size="sm"
+          variant={favoritesOnly ? 'default' : 'outline'}
+          onClick={() => setFavoritesOnly(!favoritesOnly)}
+          className="h-6 px-2 text-xs"
+        >
+          <Star className="w-3 h-3 mr-1" />
+          Favourites
+        </Button>
+        <Button
+          size="sm"
+          variant={folderFilter === null ? 'default' : 'outline'}
+          onClick={() => setFolderFilter(folderFilter === null ? undefined : null)}
+          className="h-6 px-2 text-xs"
+        >
+          Unfiled
+        </Button>
+        {folders.map((folder) => (
+          <Button
+            key={folder}
+            size="sm"
+            variant={folderFilter === folder ? 'default' : 'outline'}
+            onClick={() => setFolderFilter(folderFilter === folder ? undefined : folder)}
+            className="h-6 px-2 text-xs"
+          >
+            <Folder className="w-3 h-3 mr-1" />
+            {folder}
+          </Button>
+        ))}
+        {tags.map((tag) => (
+          <Button
+            key={tag}
+            size="sm"
+            variant={tagFilter === tag ? 'default' : 'outline'}
+            onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+            className="h-6 px-2 text-xs"
+          >
+            <Tag className="w-3 h-3 mr-1" />
+            {tag}
+          </Button>
+        ))}
+      </div>
+
+      {/* Tags, folders, favourites and the trash live on the server only */}
+      {offline && (
+        <p className="text-xs text-amber-400">
+          You're offline. Organizing and deleting avatars will be back once the connection is.
+        </p>
+      )}
+
+      {/* Bulk actions on the selection */}
+      {selected.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-slate-700/50 rounded-lg">
+          <span className="text-xs text-slate-300">{selected.length} selected</span>
+          <div className="flex items-center space-x-1">
+            <Input
+              value={folderInput}
+              onChange={(e) => setFolderInput(e.target.value)}
+              placeholder="Folder (empty = none)"
+              list="avatar-library-folders"
+              className="h-7 w-40 text-xs bg-slate-700 border-slate-600 text-slate-100"
+            />
+            <Button size="sm" variant="outline" onClick={moveSelected} disabled={isOrganizing || offline} className="h-7 text-xs border-slate-600">
+              <Folder className="w-3 h-3 mr-1" />
+              Move
+            </Button>
+          </div>
+          <div className="flex items-center space-x-1">
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Tag"
+              list="avatar-library-tags"
+              className="h-7 w-28 text-xs bg-slate-700 border-slate-600 text-slate-100"
+            />
+            <Button size="sm" variant="outline" onClick={tagSelected} disabled={isOrganizing || offline || !normalizeTag(tagInput)} className="h-7 text-xs border-slate-600">
+              <Tag className="w-3 h-3 mr-1" />
+              Tag
+            </Button>
+          </div>
+          <Button size="sm" variant="outline" onClick={favoriteSelected} disabled={isOrganizing || offline} className="h-7 text-xs border-slate-600">
+            <Star className="w-3 h-3 mr-1" />
+            Favourite
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onDelete(selected)}
+            disabled={isOrganizing || offline}
+            className="h-7 text-xs border-red-500/50 text-red-400"
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Delete
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])} className="h-7 text-xs">
+            Clear
+          </Button>
+          <datalist id="avatar-library-folders">
+            {folders.map((folder) => <option key={folder} value={folder} />)}
+          </datalist>
+          <datalist id="avatar-library-tags">
+            {tags.map((tag) => <option key={tag} value={tag} />)}
+          </datalist>
+        </div>
+      )}
+
+      <div className="max-h-[28rem] overflow-y-auto">
+        {avatars.length === 0 && !isLoading ? (
+          <div className="text-center py-8 text-slate-400">
+            <User className="w-12 h-12 mx-auto mb-2 opacity-50" />
+            <p>{search ? `No avatars match "${search}"` : savedAvatars.length > 0 ? 'No avatars match these filters' : 'No saved avatars yet'}</p>
+          </div>
+        ) : layout === 'grid' ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {avatars.map((avatar) => (
+              <div key={avatar.id} className="bg-slate-700 rounded-lg p-3">
+                <div className="relative">
+                  <Thumbnail avatar={avatar} className="w-full aspect-square rounded mb-2" />
+                  <Checkbox
+                    checked={selectedIds.includes(avatar.id)}
+                    onCheckedChange={() => setSelectedIds(prev => toggle(prev, avatar.id))}
+                    className="absolute top-2 left-2 bg-slate-900/70"
+                  />
+                </div>
+                <div className="flex justify-between items-start mb-1">
+                  <h4 className="font-medium text-slate-200 text-sm truncate">{avatar.name}</h4>
+                  <div className="flex">
+                    {renderFavorite(avatar)}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete([avatar])}
+                      disabled={offline}
+                      className="text-red-400 hover:text-red-300 p-1 h-auto"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="text-xs text-slate-400 mb-2">{renderDate(avatar)}</div>
+                {renderOrganization(avatar)}
+                {renderIssues(avatar)}
+                <Button
+                  size="sm"
+                  onClick={() => onLoad(avatar)}
+                  className="w-full text-xs mt-2"
+                >
+                  {avatar.id === currentAvatarId ? 'Reload' : 'Load Avatar'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {avatars.map((avatar) => (
+              <div key={avatar.id} className="bg-slate-700 rounded-lg p-2">
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    checked={selectedIds.includes(avatar.id)}
+                    onCheckedChange={() => setSelectedIds(prev => toggle(prev, avatar.id))}
+                  />
+                  <Thumbnail avatar={avatar} className="w-12 h-12 rounded flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-medium text-slate-200 text-sm truncate">{avatar.name}</h4>
+                      {avatar.id === currentAvatarId && (
+                        <Badge variant="outline" className="border-green-500 text-green-400 text-[10px]">Open</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-slate-400 mb-1">{renderDate(avatar)}</div>
+                    {renderOrganization(avatar)}
+                  </div>
+                  {renderFavorite(avatar)}
+                  <Button size="sm" onClick={() => onLoad(avatar)} className="text-xs">
+                    Load
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete([avatar])}
+                    disabled={offline}
+                    className="text-red-400 hover:text-red-300 p-1"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+                {renderIssues(avatar)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(nextCursor || isLoading) && (
+          <div className="flex justify-center pt-4">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={loadMore}
+              disabled={isLoading}
+              className="border-slate-600"
+            >
+              {isLoading && <Loader2 className="w-3 h-3 mr-2 animate-spin" />}
+              {isLoading ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -113,6 +113,8 @@ export default function AvatarML({ uploadedPhoto, settings, onSettingsUpdate }:
       noseSize: Math.round(mlResults.facialFeatures.noseSize),
       mouthSize: Math.round(mlResults.facialFeatures.mouthSize),
       facialStructure: Math.round(mlResults.facialFeatures.facialStructure),
+      jawWidth: Math.round(mlResults.facialFeatures.jawWidth),
+      cheekbones: Math.round(mlResults.facialFeatures.cheekbones),
       height: Math.round(mlResults.bodyEstimation.estimatedHeight),
       skinTone: Math.round(mlResults.skinAnalysis.skinTone),
       muscle: Math.round(mlResults.bodyEstimation.musclePotential)
@@ -204,6 +206,8 @@ export default function AvatarML({ uploadedPhoto, settings, onSettingsUpdate }:
                 <div>Nose Size: {Math.round(mlResults.facialFeatures.noseSize)}%</div>
                 <div>Mouth Size: {Math.round(mlResults.facialFeatures.mouthSize)}%</div>
                 <div>Face Structure: {Math.round(mlResults.facialFeatures.facialStructure)}%</div>
+                <div>Jaw Width: {Math.round(mlResults.facialFeatures.jawWidth)}%</div>
+                <div>Cheekbones: {Math.round(mlResults.facialFeatures.cheekbones)}%</div>
               </div>
             </div>
 
@@ -6,7 +6,7 @@ import { User, Users, Sparkles } from 'lucide-react'
 interface AvatarPresetsProps {
   currentGender: 'male' | 'female' | 'non-binary'
   onGenderChange: (gender: 'male' | 'female' | 'non-binary') => void
-  onApplyPreset: (preset: any) => void
+  onApplyPreset: (preset: any, name?: string) => void
 }
 
 export default function AvatarPresets({ currentGender, onGenderChange, onApplyPreset }: AvatarPresetsProps) {
@@ -190,7 +190,7 @@ export default function AvatarPresets({ currentGender, onGenderChange, onApplyPr
                 
                 <Button
                   size="sm"
-                  onClick={() => onApplyPreset(preset.settings)}
+                  onClick={() => onApplyPreset(preset.settings, preset.name)}
                   className="w-full text-xs bg-blue-600 hover:bg-blue-700"
                 >
                   Apply Preset
@@ -0,0 +1,238 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Checkbox } from './ui/checkbox'
+import { Progress } from './ui/progress'
+import { Badge } from './ui/badge'
+import { Label } from './ui/label'
+import { Archive, Loader2, RotateCcw, X, CheckCircle, AlertCircle, Ban, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { buildBatchArchive } from '../lib/export/batch'
+import { downloadBlob } from '../lib/export/download'
+import type { ExportJob, ExportJobStatus } from '../hooks/use-export-queue'
+import type { AvatarSettings } from '../lib/avatar/settings'
+
+interface BatchAvatar {
+  id: string
+  name: string
+  settings: AvatarSettings
+  customModel: { url: string; name: string } | null
+}
+
+interface BatchFormat {
+  id: string
+  name: string
+}
+
+export interface BatchJobPayload {
+  avatar: BatchAvatar
+  format: BatchFormat
+}
+
+interface BatchExportPanelProps {
+  savedAvatars: BatchAvatar[]
+  formats: BatchFormat[]
+  jobs: ExportJob<BatchJobPayload>[]
+  isRunning: boolean
+  // A single export from the Formats tab is using the viewport
+  disabled: boolean
+  onEnqueue: (items: { label: string; payload: BatchJobPayload }[]) => void
+  onCancel: (id: string) => void
+  onCancelAll: () => void
+  onRetry: (id: string) => void
+  onClear: () => void
+  onArchive: (archive: Blob, fileName: string) => Promise<void>
+}
+
+const statusBadge: Record<ExportJobStatus, string> = {
+  pending: 'bg-slate-500',
+  running: 'bg-blue-500',
+  done: 'bg-green-600',
+  failed: 'bg-red-500',
+  cancelled: 'bg-slate-600'
+}
+
+export default function BatchExportPanel({
+  savedAvatars,
+  formats,
+  jobs,
+  isRunning,
+  disabled,
+  onEnqueue,
+  onCancel,
+  onCancelAll,
+  onRetry,
+  onClear,
+  onArchive
+}: BatchExportPanelProps) {
+  const [selectedAvatars, setSelectedAvatars] = useState<string[]>([])
+  const [selectedFormats, setSelectedFormats] = useState<string[]>([])
+  const [isArchiving, setIsArchiving] = useState(false)
+
+  const toggle = (list: string[], id: string) => list.includes(id) ? list.filter(item => item !== id) : [...list, id]
+
+  const completed = jobs.filter(job => job.status === 'done')
+  const jobCount = selectedAvatars.length * selectedFormats.length
+
+  const startBatch = () => {
+    const items = savedAvatars
+      .filter(avatar => selectedAvatars.includes(avatar.id))
+      .flatMap(avatar => formats
+        .filter(format => selectedFormats.includes(format.id))
+        .map(format => ({ label: `${avatar.name} · ${format.name}`, payload: { avatar, format } })))
+    onEnqueue(items)
+  }
+
+  const downloadArchive = async () => {
+    setIsArchiving(true)
+    try {
+      const archive = await buildBatchArchive(jobs.map(job => ({
+        avatarId: job.payload.avatar.id,
+        avatarName: job.payload.avatar.name,
+        formatId: job.payload.format.id,
+        status: job.status,
+        fileName: job.result?.fileName,
+        blob: job.result?.blob,
+        error: job.error
+      })))
+      const fileName = `avatar-batch-${Date.now()}.zip`
+      downloadBlob(archive, fileName)
+      toast.success(`Batch zip ready with ${completed.length} file${completed.length !== 1 ? 's' : ''}`)
+      await onArchive(archive, fileName)
+    } catch (error) {
+      console.error('Batch archive error:', error)
+      toast.error('Failed to build the batch zip')
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
+  if (savedAvatars.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-400">
+        <Archive className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No saved avatars</p>
+        <p className="text-xs mt-1">Save avatars to export several at once</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-slate-700/30 rounded-lg space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-slate-300">Avatars</h4>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setSelectedAvatars(selectedAvatars.length === savedAvatars.length ? [] : savedAvatars.map(avatar => avatar.id))}
+            className="h-6 px-2 text-xs border-slate-600"
+          >
+            {selectedAvatars.length === savedAvatars.length ? 'None' : 'All'}
+          </Button>
+        </div>
+        {savedAvatars.map((avatar) => (
+          <div key={avatar.id} className="flex items-center space-x-2">
+            <Checkbox
+              id={`batch-avatar-${avatar.id}`}
+              checked={selectedAvatars.includes(avatar.id)}
+              onCheckedChange={() => setSelectedAvatars(prev => toggle(prev, avatar.id))}
+            />
+            <Label htmlFor={`batch-avatar-${avatar.id}`} className="text-xs text-slate-300">{avatar.name}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 bg-slate-700/30 rounded-lg space-y-2">
+        <h4 className="text-sm font-medium text-slate-300">Formats</h4>
+        <div className="grid grid-cols-2 gap-1">
+          {formats.map((format) => (
+            <Button
+              key={format.id}
+              size="sm"
+              variant={selectedFormats.includes(format.id) ? 'default' : 'outline'}
+              onClick={() => setSelectedFormats(prev => toggle(prev, format.id))}
+              className="h-6 px-1 text-xs truncate"
+            >
+              {format.name}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <Button
+        onClick={startBatch}
+        disabled={disabled || jobCount === 0}
+        className="w-full bg-blue-600 hover:bg-blue-700"
+      >
+        <Archive className="w-4 h-4 mr-2" />
+        Queue {jobCount} export{jobCount !== 1 ? 's' : ''}
+      </Button>
+
+      {jobs.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">
+              {completed.length}/{jobs.length} done
+            </span>
+            <div className="flex space-x-1">
+              <Button size="sm" variant="outline" onClick={onCancelAll} disabled={!isRunning} className="h-6 px-2 text-xs border-slate-600">
+                Cancel all
+              </Button>
+              <Button size="sm" variant="outline" onClick={onClear} disabled={isRunning} className="h-6 px-2 text-xs border-slate-600">
+                <Trash2 className="w-3 h-3 mr-1" />
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          {jobs.map((job) => (
+            <div key={job.id} className="border border-slate-600 rounded-lg p-2 space-y-1">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0">
+                  {job.status === 'running' && <Loader2 className="w-3 h-3 animate-spin text-blue-400" />}
+                  {job.status === 'done' && <CheckCircle className="w-3 h-3 text-green-400" />}
+                  {job.status === 'failed' && <AlertCircle className="w-3 h-3 text-red-400" />}
+                  {job.status === 'cancelled' && <Ban className="w-3 h-3 text-slate-400" />}
+                  <span className="text-xs text-slate-200 truncate">{job.label}</span>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Badge variant="secondary" className={`text-xs px-2 py-0 ${statusBadge[job.status]} text-white`}>
+                    {job.status}
+                  </Badge>
+                  {(job.status === 'pending' || job.status === 'running') && (
+                    <Button size="sm" variant="ghost" onClick={() => onCancel(job.id)} className="h-6 w-6 p-0">
+                      <X className="w-3 h-3" />
+                    </Button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <Button size="sm" variant="ghost" onClick={() => onRetry(job.id)} disabled={disabled} className="h-6 w-6 p-0">
+                      <RotateCcw className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {job.status === 'running' && (
+                <>
+                  <Progress value={job.progress} className="w-full h-1" />
+                  {job.stage && <div className="text-xs text-slate-400">{job.stage}</div>}
+                </>
+              )}
+              {job.status === 'failed' && job.error && (
+                <div className="text-xs text-red-400">{job.error}</div>
+              )}
+            </div>
+          ))}
+
+          <Button
+            onClick={downloadArchive}
+            disabled={isRunning || isArchiving || completed.length === 0}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            {isArchiving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Archive className="w-4 h-4 mr-2" />}
+            Download zip with manifest
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -16,10 +16,11 @@ import {
   Heart,
   Target
 } from 'lucide-react'
+import type { AvatarSettings } from '../lib/avatar/settings'
 
 interface BodyPresetsProps {
   currentSettings: any
-  onApplyPreset: (preset: any) => void
+  onApplyPreset: (preset: any, name?: string) => void
 }
 
 interface BodyPreset {
@@ -28,20 +29,7 @@ interface BodyPreset {
   description: string
   category: 'athletic' | 'casual' | 'professional' | 'fantasy'
   gender: 'male' | 'female' | 'non-binary' | 'all'
-  settings: {
-    height: number
-    muscle: number
-    bodyFat: number
-    shoulderWidth: number
-    waistSize: number
-    skinTone: number
-    facialStructure: number
-    eyeSize: number
-    noseSize: number
-    mouthSize: number
-    hairStyle: number
-    hairColor: number
-  }
+  settings: Omit<AvatarSettings, 'gender'>
   popularity: number
   icon: React.ReactNode
   tags: string[]
@@ -66,6 +54,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 50,
       noseSize: 55,
       mouthSize: 50,
+      jawWidth: 75,
+      cheekbones: 60,
       hairStyle: 2,
       hairColor: 30
     },
@@ -90,6 +80,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 65,
       noseSize: 45,
       mouthSize: 55,
+      jawWidth: 40,
+      cheekbones: 70,
       hairStyle: 3,
       hairColor: 60
     },
@@ -114,6 +106,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 50,
       noseSize: 50,
       mouthSize: 50,
+      jawWidth: 60,
+      cheekbones: 55,
       hairStyle: 1,
       hairColor: 45
     },
@@ -138,6 +132,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 55,
       noseSize: 50,
       mouthSize: 50,
+      jawWidth: 50,
+      cheekbones: 60,
       hairStyle: 2,
       hairColor: 25
     },
@@ -164,6 +160,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 50,
       noseSize: 50,
       mouthSize: 50,
+      jawWidth: 50,
+      cheekbones: 50,
       hairStyle: 2,
       hairColor: 50
     },
@@ -188,6 +186,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 60,
       noseSize: 45,
       mouthSize: 55,
+      jawWidth: 40,
+      cheekbones: 50,
       hairStyle: 4,
       hairColor: 70
     },
@@ -212,6 +212,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 55,
       noseSize: 45,
       mouthSize: 50,
+      jawWidth: 45,
+      cheekbones: 55,
       hairStyle: 1,
       hairColor: 40
     },
@@ -236,6 +238,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 70,
       noseSize: 40,
       mouthSize: 50,
+      jawWidth: 35,
+      cheekbones: 55,
       hairStyle: 3,
       hairColor: 80
     },
@@ -262,6 +266,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 50,
       noseSize: 50,
       mouthSize: 50,
+      jawWidth: 60,
+      cheekbones: 55,
       hairStyle: 2,
       hairColor: 35
     },
@@ -286,6 +292,8 @@ const bodyPresets: BodyPreset[] = [
       eyeSize: 55,
       noseSize: 50,
       mouthSize: 50,
+      jawWidth: 45,
+      cheekbones: 60,
       hairStyle: 2,
       hairColor: 45
     },
@@ -434,7 +442,7 @@ export default function BodyPresets({ currentSettings, onApplyPreset }: BodyPres
                 {/* Apply Button */}
                 <Button
                   size="sm"
-                  onClick={() => onApplyPreset(preset.settings)}
+                  onClick={() => onApplyPreset(preset.settings, preset.name)}
                   className="w-full bg-blue-600 hover:bg-blue-700"
                 >
                   <UserCheck className="w-3 h-3 mr-2" />
@@ -0,0 +1,87 @@
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { AlertTriangle, FileJson } from 'lucide-react'
+import type { DefinitionChange } from '../lib/avatar/definition'
+
+interface DefinitionImportDialogProps {
+  // File being imported; the dialog is open while this is set
+  fileName: string | null
+  changes: DefinitionChange[]
+  issues: string[]
+  onApply: () => void
+  onCancel: () => void
+}
+
+// Shows what an imported definition would change before it replaces the current avatar
+export default function DefinitionImportDialog({ fileName, changes, issues, onApply, onCancel }: DefinitionImportDialogProps) {
+  return (
+    <Dialog open={fileName !== null} onOpenChange={(open) => { if (!open) onCancel() }}>
+      <DialogContent className="bg-slate-800 border-slate-600">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100 flex items-center">
+            <FileJson className="w-4 h-4 mr-2 text-blue-400" />
+            Import {fileName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {issues.length > 0 && (
+            <div className="p-2 bg-amber-500/10 border border-amber-500/30 rounded text-xs">
+              <div className="text-amber-400 font-medium mb-1 flex items-center">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {issues.length} value{issues.length !== 1 ? 's' : ''} repaired
+              </div>
+              <ul className="text-slate-400 space-y-0.5 max-h-24 overflow-y-auto">
+                {issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-4">
+              This definition matches the current avatar.
+            </p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-400 text-left">
+                    <th className="font-medium pb-2">Field</th>
+                    <th className="font-medium pb-2">Current</th>
+                    <th className="font-medium pb-2">Imported</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map((change) => (
+                    <tr key={`${change.section}:${change.label}`} className="border-t border-slate-700">
+                      <td className="py-1 pr-2 text-slate-300">
+                        <Badge variant="outline" className="mr-2 border-slate-600 text-slate-400 text-[10px]">
+                          {change.section}
+                        </Badge>
+                        {change.label}
+                      </td>
+                      <td className="py-1 pr-2 text-red-300 line-through">{change.from}</td>
+                      <td className="py-1 text-green-300">{change.to}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <Button onClick={onApply} className="flex-1">
+              Replace Current Avatar
+            </Button>
+            <Button variant="outline" onClick={onCancel} className="border-slate-600">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
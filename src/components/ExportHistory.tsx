@@ -0,0 +1,230 @@
+import { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Download, Copy, Trash2, Loader2, ChevronLeft, ChevronRight, CheckCircle } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { deleteExport, listExports, redownloadExport, type ExportRecord } from '../lib/export/history'
+
+interface ExportHistoryProps {
+  userId?: string | null
+  // Names for avatar ids, so rows show which saved avatar they came from
+  savedAvatars: { id: string; name: string }[]
+}
+
+const PAGE_SIZE = 5
+
+// How long a deleted export can still be brought back from its toast
+const UNDO_DELAY = 8000
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Remount (change `key`) to jump back to the first page after new uploads
+export default function ExportHistory({ userId, savedAvatars }: ExportHistoryProps) {
+  const [records, setRecords] = useState<ExportRecord[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [reloadToken, setReloadToken] = useState(0)
+  // Deleted rows stay hidden until their undo window runs out and the delete is sent
+  const [pendingIds, setPendingIds] = useState<string[]>([])
+  const pendingTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    const loadPage = async () => {
+      setIsLoading(true)
+      try {
+        const result = await listExports(userId, page, PAGE_SIZE)
+        if (cancelled) return
+        // Deleting the last row of a page leaves it empty; step back instead
+        if (result.records.length === 0 && page > 0) {
+          setPage(page - 1)
+          return
+        }
+        setRecords(result.records)
+        setTotal(result.total)
+      } catch (error) {
+        console.error('Error loading export history:', error)
+        toast.error('Failed to load export history')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadPage()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, page, reloadToken])
+
+  const handleRedownload = async (record: ExportRecord) => {
+    setBusyId(record.id)
+    try {
+      await redownloadExport(record)
+    } catch (error) {
+      console.error('Error downloading export:', error)
+      toast.error(`Failed to download ${record.file_name}`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCopyLink = async (record: ExportRecord) => {
+    try {
+      await navigator.clipboard.writeText(record.url)
+      toast.success('Link copied to clipboard')
+    } catch (error) {
+      console.error('Error copying link:', error)
+      toast.error('Failed to copy link')
+    }
+  }
+
+  const unhide = (id: string) => setPendingIds(prev => prev.filter(pendingId => pendingId !== id))
+
+  const commitDelete = async (record: ExportRecord) => {
+    pendingTimers.current.delete(record.id)
+    try {
+      await deleteExport(record)
+      setRecords(prev => prev.filter(row => row.id !== record.id))
+      setTotal(prev => prev - 1)
+      setReloadToken(prev => prev + 1)
+    } catch (error) {
+      console.error('Error deleting export:', error)
+      toast.error(`Failed to delete ${record.file_name}`)
+    } finally {
+      unhide(record.id)
+    }
+  }
+
+  const handleDelete = (record: ExportRecord) => {
+    setPendingIds(prev => [...prev, record.id])
+    pendingTimers.current.set(record.id, setTimeout(() => commitDelete(record), UNDO_DELAY))
+
+    toast((t) => (
+      <span className="flex items-center">
+        Deleted "{record.file_name}"
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            toast.dismiss(t.id)
+            clearTimeout(pendingTimers.current.get(record.id))
+            pendingTimers.current.delete(record.id)
+            unhide(record.id)
+          }}
+          className="ml-3 h-6 text-xs"
+        >
+          Undo
+        </Button>
+      </span>
+    ), { duration: UNDO_DELAY })
+  }
+
+  const visibleRecords = records.filter(record => !pendingIds.includes(record.id))
+  const visibleTotal = total - pendingIds.length
+  const pageCount = Math.max(1, Math.ceil(visibleTotal / PAGE_SIZE))
+
+  if (!isLoading && visibleRecords.length === 0 && page === 0) {
+    return (
+      <div className="text-center py-8 text-slate-400">
+        <Download className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No exports yet</p>
+        <p className="text-xs mt-1">Export your avatar to see downloads here</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {isLoading && visibleRecords.length === 0 && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+        </div>
+      )}
+
+      {visibleRecords.map((record) => (
+        <div
+          key={record.id}
+          className="border border-slate-600 rounded-lg p-3"
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3 min-w-0">
+              <CheckCircle className="w-4 h-4 text-green-400 shrink-0" />
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-slate-200 truncate">{record.file_name}</div>
+                <div className="flex items-center space-x-2 text-xs text-slate-400">
+                  <Badge variant="secondary" className="text-xs px-1 py-0">{record.format}</Badge>
+                  <span>{formatBytes(Number(record.size))}</span>
+                  <span>•</span>
+                  <span>{new Date(record.created_at).toLocaleDateString()}</span>
+                </div>
+                {record.avatar_id && (
+                  <div className="text-xs text-slate-500 truncate">
+                    {savedAvatars.find(avatar => avatar.id === record.avatar_id)?.name ?? 'Deleted avatar'}
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center space-x-1 shrink-0">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleCopyLink(record)}
+                className="border-slate-600 h-7 w-7 p-0"
+              >
+                <Copy className="w-3 h-3" />
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleRedownload(record)}
+                disabled={busyId === record.id}
+                className="bg-green-600 hover:bg-green-700 h-7 w-7 p-0"
+              >
+                {busyId === record.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDelete(record)}
+                disabled={busyId === record.id}
+                className="border-slate-600 h-7 w-7 p-0 text-red-400 hover:text-red-300"
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-1">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setPage(prev => prev - 1)}
+          disabled={page === 0 || isLoading}
+          className="h-7 px-2 border-slate-600"
+        >
+          <ChevronLeft className="w-3 h-3" />
+        </Button>
+        <span className="text-xs text-slate-400">
+          Page {page + 1} of {pageCount} · {visibleTotal} file{visibleTotal !== 1 ? 's' : ''}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setPage(prev => prev + 1)}
+          disabled={page + 1 >= pageCount || isLoading}
+          className="h-7 px-2 border-slate-600"
+        >
+          <ChevronRight className="w-3 h-3" />
+        </Button>
+      </div>
+    </div>
+  )
+}
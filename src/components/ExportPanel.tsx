@@ -1,23 +1,67 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
 import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
 import { 
   Download, 
   Image, 
   FileText, 
   Package, 
   Loader2, 
-  CheckCircle,
   Share2,
   Copy,
-  ExternalLink
+  ExternalLink,
+  RotateCw,
+  LayoutGrid,
+  Layers
 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { AnimationClip, Object3D } from 'three'
+import { cloneAvatarForExport, findAvatarRoot, restSkeletons, type AvatarCanvasHandle } from '../lib/export/scene'
+import { exportGLB } from '../lib/export/glb'
+import { downloadBlob } from '../lib/export/download'
+import { renderAvatarImage, RENDER_RESOLUTIONS, type RenderQuality } from '../lib/export/render'
+import { exportOBJBundle } from '../lib/export/obj'
+import { exportSTL } from '../lib/export/stl'
+import { exportVRM } from '../lib/export/vrm'
+import { exportUSDZ, openARQuickLook, supportsARQuickLook } from '../lib/export/usdz'
+import { exportCharacterSheet, type OrthographicView } from '../lib/export/spritesheet'
+import { exportTurntable, TURNTABLE_SIZES, type TurntableFormat, type TurntableSize } from '../lib/export/turntable'
+import { waitForAvatar } from '../lib/export/batch'
+import { saveExport } from '../lib/export/history'
+import { createShareUrl } from '../lib/avatar/share'
+import type { AvatarSettings, LightingSettings } from '../lib/avatar/settings'
+import { findPose, poseAvatar, type AvatarPose } from '../lib/avatar/poses'
+import { useExportQueue } from '../hooks/use-export-queue'
+import BatchExportPanel, { type BatchJobPayload } from './BatchExportPanel'
+import ExportHistory from './ExportHistory'
 
 interface ExportPanelProps {
-  settings: any
+  settings: AvatarSettings
+  lighting?: LightingSettings
+  canvas?: AvatarCanvasHandle | null
+  // Name of the loaded saved avatar and the signed-in user, written into VRM metadata
+  avatarName?: string | null
+  author?: string | null
+  // Exports are uploaded to the signed-in user's history, linked to the loaded saved avatar
+  userId?: string | null
+  avatarId?: string | null
+  // Saved avatars offered for batch export; each is previewed in the viewport, custom
+  // model and all, while it exports, and the preview is cleared with null once the queue drains
+  savedAvatars?: { id: string; name: string; settings: AvatarSettings; customModel: { url: string; name: string } | null }[]
+  // Poses offered for renders and model exports, in place of the one in the viewport
+  poses?: AvatarPose[]
+  // Clips the avatar in the viewport can play, imported BVH takes included, for embedding in GLB
+  animations?: AnimationClip[]
+  onApplyAvatar?: (avatar: { settings: AvatarSettings; customModel: { url: string; name: string } | null } | null) => void
+  skinTextureUrl?: string | null
+  renderQuality: RenderQuality
+  onRenderQualityChange: (quality: RenderQuality) => void
   onExport: (format: string, options: any) => void
 }
 
@@ -29,6 +73,8 @@ interface ExportFormat {
   fileSize: string
   quality: 'HD' | '4K' | '8K'
   format: string
+  // File extension when it differs from the format, e.g. bundles shipped as zip
+  extension?: string
   useCase: string
 }
 
@@ -53,16 +99,37 @@ const exportFormats: ExportFormat[] = [
     format: 'PNG',
     useCase: 'Professional use, large displays'
   },
+  {
+    id: 'png-8k',
+    name: 'PNG 8K',
+    description: 'Print-ready resolution with transparency',
+    icon: <Image className="w-4 h-4" />,
+    fileSize: '~30MB',
+    quality: '8K',
+    format: 'PNG',
+    useCase: 'Posters, print, cropping'
+  },
   {
     id: 'jpg-hd',
     name: 'JPG HD',
-    description: 'High-definition with white background',
+    description: 'High-definition with a solid background',
     icon: <Image className="w-4 h-4" />,
     fileSize: '~1.5MB',
     quality: 'HD',
     format: 'JPG',
     useCase: 'General use, smaller file size'
   },
+  {
+    id: 'sheet-png',
+    name: 'Character Sheet',
+    description: 'Multi-angle sprite atlas with TexturePacker JSON',
+    icon: <LayoutGrid className="w-4 h-4" />,
+    fileSize: '~4MB',
+    quality: 'HD',
+    format: 'PNG',
+    extension: 'zip',
+    useCase: '2D games, sprite engines'
+  },
   {
     id: 'glb-3d',
     name: '3D Model (GLB)',
@@ -73,6 +140,26 @@ const exportFormats: ExportFormat[] = [
     format: 'GLB',
     useCase: 'Games, AR/VR, 3D applications'
   },
+  {
+    id: 'vrm-3d',
+    name: '3D Avatar (VRM)',
+    description: 'Humanoid rig with expressions, VRM 1.0',
+    icon: <Package className="w-4 h-4" />,
+    fileSize: '~5MB',
+    quality: 'HD',
+    format: 'VRM',
+    useCase: 'VTubing, VRChat, social VR'
+  },
+  {
+    id: 'usdz-ar',
+    name: 'AR Model (USDZ)',
+    description: 'iOS AR Quick Look at real-world height',
+    icon: <Package className="w-4 h-4" />,
+    fileSize: '~4MB',
+    quality: 'HD',
+    format: 'USDZ',
+    useCase: 'iPhone/iPad AR, Apple Vision Pro'
+  },
   {
     id: 'fbx-3d',
     name: '3D Model (FBX)',
@@ -86,72 +173,372 @@ const exportFormats: ExportFormat[] = [
   {
     id: 'obj-3d',
     name: '3D Model (OBJ)',
-    description: 'Universal 3D format with textures',
+    description: 'Universal 3D format with textures (zip with MTL + PNGs)',
     icon: <Package className="w-4 h-4" />,
     fileSize: '~4MB',
     quality: 'HD',
     format: 'OBJ',
+    extension: 'zip',
     useCase: '3D printing, modeling software'
+  },
+  {
+    id: 'stl-print',
+    name: '3D Print (STL)',
+    description: 'Watertight single solid, scaled in millimetres',
+    icon: <Package className="w-4 h-4" />,
+    fileSize: '~10MB',
+    quality: 'HD',
+    format: 'STL',
+    useCase: 'Resin/FDM figurines'
+  },
+  {
+    id: 'turntable-gif',
+    name: 'Turntable (GIF)',
+    description: 'Looping 360° spin, optional transparency',
+    icon: <RotateCw className="w-4 h-4" />,
+    fileSize: '~6MB',
+    quality: 'HD',
+    format: 'GIF',
+    useCase: 'Marketing pages, chat, forums'
+  },
+  {
+    id: 'turntable-webm',
+    name: 'Turntable (WebM)',
+    description: 'Looping 360° spin as video',
+    icon: <RotateCw className="w-4 h-4" />,
+    fileSize: '~3MB',
+    quality: 'HD',
+    format: 'WebM',
+    useCase: 'Character select screens, websites'
+  },
+  {
+    id: 'turntable-png',
+    name: 'Turntable (PNG Sequence)',
+    description: 'Numbered transparent frames in a zip',
+    icon: <RotateCw className="w-4 h-4" />,
+    fileSize: '~40MB',
+    quality: 'HD',
+    format: 'PNG',
+    extension: 'zip',
+    useCase: 'Video editing, game engines'
   }
 ]
 
-export default function ExportPanel({ settings, onExport }: ExportPanelProps) {
+// Per-run inputs, so the same exporters serve the live avatar and batch jobs
+interface ExportRun {
+  settings: AvatarSettings
+  avatarName?: string | null
+  // Progress in percent, with an optional new stage label
+  report: (progress: number, stage?: string) => void
+}
+
+const turntableFormats: Record<string, TurntableFormat> = {
+  'turntable-gif': 'gif',
+  'turntable-webm': 'webm',
+  'turntable-png': 'png-sequence'
+}
+
+export default function ExportPanel({ settings, lighting, canvas, avatarName, author, userId, avatarId, savedAvatars = [], poses = [], animations = [], onApplyAvatar, skinTextureUrl, renderQuality, onRenderQualityChange, onExport }: ExportPanelProps) {
   const [isExporting, setIsExporting] = useState(false)
   const [exportProgress, setExportProgress] = useState(0)
   const [exportStage, setExportStage] = useState('')
-  const [exportedFiles, setExportedFiles] = useState<{id: string, url: string, name: string}[]>([])
+  const [historyVersion, setHistoryVersion] = useState(0)
   const [activeExport, setActiveExport] = useState<string | null>(null)
+  const [jpgBackground, setJpgBackground] = useState('#ffffff')
+  const [figurineHeight, setFigurineHeight] = useState(150)
+  const [basePlate, setBasePlate] = useState(true)
+  const [stlEncoding, setStlEncoding] = useState<'binary' | 'ascii'>('binary')
+  const [printReport, setPrintReport] = useState<{ volumeMm3: number; dimensionsMm: [number, number, number] } | null>(null)
+  const [turntableFrames, setTurntableFrames] = useState(72)
+  const [turntableFps, setTurntableFps] = useState(24)
+  const [turntableSize, setTurntableSize] = useState<TurntableSize>('512²')
+  const [turntableBackground, setTurntableBackground] = useState('#1e293b')
+  const [turntableTransparent, setTurntableTransparent] = useState(true)
+  const [vrmMaterialStyle, setVrmMaterialStyle] = useState<'mtoon' | 'unlit'>('mtoon')
+  const [sheetAngles, setSheetAngles] = useState(8)
+  const [sheetFrameSize, setSheetFrameSize] = useState(256)
+  const [sheetViews, setSheetViews] = useState<OrthographicView[]>(['front', 'side', 'back'])
+  // null exports the avatar as posed in the viewport
+  const [exportPoseId, setExportPoseId] = useState<string | null>(null)
+  const exportPose = findPose(poses, exportPoseId)
+  const [embedAnimations, setEmbedAnimations] = useState(true)
+  // Batch jobs swap the avatar and export once it has rebuilt, by then this render's
+  // clips belong to the previous avatar; the ref follows the viewport's latest
+  const animationsRef = useRef(animations)
+
+  useEffect(() => {
+    animationsRef.current = animations
+  }, [animations])
+
+  // Copies are posed in place; renders pose the live avatar and put it back afterwards
+  const poseCopy = (avatar: Object3D) => {
+    if (exportPose) poseAvatar(avatar, exportPose.rotations)
+    return avatar
+  }
+
+  const withExportPose = async <T,>(render: () => Promise<T>): Promise<T> => {
+    const root = canvas && exportPose ? findAvatarRoot(canvas.scene) : null
+    const restore = root && exportPose ? poseAvatar(root, exportPose.rotations) : null
+    try {
+      return await render()
+    } finally {
+      restore?.()
+    }
+  }
+
+  const exportGLBModel = async (_format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    run.report(20, 'Preparing 3D scene...')
+    const avatar = poseCopy(cloneAvatarForExport(canvas.scene))
+
+    run.report(60, 'Encoding 3D model...')
+    // The copy keeps the viewport's bone names, so the clips bind to it unchanged
+    return exportGLB(avatar, { animations: embedAnimations ? animationsRef.current : [] })
+  }
+
+  const exportVRMModel = async (_format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    run.report(20, 'Mapping humanoid bones...')
+    const avatar = cloneAvatarForExport(canvas.scene)
+    // VRM runtimes animate the humanoid from its rest pose, so leave the viewport pose,
+    // a playing clip or a custom model's own animation behind
+    restSkeletons(avatar)
+
+    run.report(60, 'Writing VRM expressions and materials...')
+    return exportVRM(avatar, {
+      meta: {
+        name: run.avatarName || 'Untitled Avatar',
+        authors: [author || 'Unknown']
+      },
+      materialStyle: vrmMaterialStyle
+    })
+  }
+
+  const exportUSDZModel = async (_format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    run.report(20, 'Baking avatar for AR...')
+    const avatar = poseCopy(cloneAvatarForExport(canvas.scene))
+
+    run.report(60, `Scaling to ${(run.settings.height / 100).toFixed(2)}m and packaging USDZ...`)
+    return exportUSDZ(avatar, { heightMeters: run.settings.height / 100 })
+  }
+
+  const exportOBJModel = async (_format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    run.report(20, 'Merging avatar geometry...')
+    const avatar = poseCopy(cloneAvatarForExport(canvas.scene))
+
+    run.report(60, 'Baking textures and writing OBJ/MTL...')
+    return exportOBJBundle(avatar, { skinTextureUrl })
+  }
+
+  const exportSTLModel = async (_format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    run.report(30, 'Fusing body parts into a watertight solid...')
+    // Voxelization blocks the main thread, so let the stage label paint first
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    const result = exportSTL(poseCopy(cloneAvatarForExport(canvas.scene)), {
+      heightMm: figurineHeight,
+      basePlate,
+      encoding: stlEncoding
+    })
+    setPrintReport({ volumeMm3: result.volumeMm3, dimensionsMm: result.dimensionsMm })
+    toast.success(`Print volume: ${(result.volumeMm3 / 1000).toFixed(1)} cm³`)
+    return result.blob
+  }
+
+  const exportImage = async (format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    const { width, height } = RENDER_RESOLUTIONS[format.quality]
+    run.report(10, `Rendering ${width}×${height} image...`)
+
+    return withExportPose(() => renderAvatarImage(canvas, {
+      width,
+      height,
+      format: format.format === 'JPG' ? 'jpg' : 'png',
+      background: jpgBackground,
+      onProgress: (fraction) => run.report(10 + Math.round(fraction * 80))
+    }))
+  }
+
+  const exportTurntableAnimation = async (format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    const { width, height } = TURNTABLE_SIZES[turntableSize]
+    run.report(5, `Rendering ${turntableFrames} turntable frames...`)
+
+    return withExportPose(() => exportTurntable(canvas, {
+      format: turntableFormats[format.id],
+      frames: turntableFrames,
+      fps: turntableFps,
+      width,
+      height,
+      background: turntableTransparent ? null : turntableBackground,
+      onProgress: (fraction) => run.report(5 + Math.round(fraction * 90))
+    }))
+  }
+
+  const exportSheet = async (_format: ExportFormat, run: ExportRun): Promise<Blob> => {
+    if (!canvas) throw new Error('3D viewport is not ready yet')
+
+    run.report(5, `Rendering ${sheetAngles + sheetViews.length} character sheet views...`)
+
+    return withExportPose(() => exportCharacterSheet(canvas, {
+      angles: sheetAngles,
+      orthographicViews: sheetViews,
+      frameSize: sheetFrameSize,
+      lighting,
+      onProgress: (fraction) => run.report(5 + Math.round(fraction * 85))
+    }))
+  }
+
+  const toggleSheetView = (view: OrthographicView) => {
+    setSheetViews(prev => prev.includes(view) ? prev.filter(v => v !== view) : [...prev, view])
+  }
+
+  // Formats with a real exporter behind them; the rest still run the simulated pipeline
+  const exporters: Record<string, (format: ExportFormat, run: ExportRun) => Promise<Blob>> = {
+    'png-hd': exportImage,
+    'png-4k': exportImage,
+    'png-8k': exportImage,
+    'jpg-hd': exportImage,
+    'sheet-png': exportSheet,
+    'glb-3d': exportGLBModel,
+    'vrm-3d': exportVRMModel,
+    'usdz-ar': exportUSDZModel,
+    'obj-3d': exportOBJModel,
+    'stl-print': exportSTLModel,
+    'turntable-gif': exportTurntableAnimation,
+    'turntable-webm': exportTurntableAnimation,
+    'turntable-png': exportTurntableAnimation
+  }
+
+  const runBatchJob = async (
+    { avatar, format }: BatchJobPayload,
+    report: (progress: number, stage?: string) => void,
+    signal: AbortSignal
+  ) => {
+    const exportFormat = exportFormats.find(candidate => candidate.id === format.id)!
+
+    report(0, `Loading ${avatar.name}...`)
+    onApplyAvatar?.({ settings: avatar.settings, customModel: avatar.customModel })
+    await waitForAvatar(canvas)
+    if (signal.aborted) throw new Error('Cancelled')
+
+    const blob = await exporters[format.id](exportFormat, { settings: avatar.settings, avatarName: avatar.name, report })
+    const extension = exportFormat.extension ?? exportFormat.format.toLowerCase()
+    return { fileName: `${format.id}.${extension}`, blob }
+  }
+
+  const batch = useExportQueue<BatchJobPayload>(runBatchJob, () => onApplyAvatar?.(null))
+
+  const simulateExport = async (format: ExportFormat) => {
+    // Stage 1: Preparing scene
+    setExportStage('Preparing 3D scene...')
+    setExportProgress(20)
+    await new Promise(resolve => setTimeout(resolve, 800))
+
+    // Stage 2: Processing geometry
+    setExportStage('Processing avatar geometry...')
+    setExportProgress(40)
+    await new Promise(resolve => setTimeout(resolve, 800))
+
+    // Stage 3: Applying textures
+    setExportStage('Applying HD textures...')
+    setExportProgress(60)
+    await new Promise(resolve => setTimeout(resolve, 800))
+
+    // Stage 4: Rendering/Encoding
+    if (format.format === 'PNG' || format.format === 'JPG') {
+      setExportStage('Rendering high-quality image...')
+    } else {
+      setExportStage('Encoding 3D model...')
+    }
+    setExportProgress(80)
+    await new Promise(resolve => setTimeout(resolve, 1000))
+  }
+
+  // Keep a copy in storage so the Downloads tab survives reloads and other devices.
+  // The local file is already saved, so an upload failure is only a warning.
+  const saveToHistory = async (blob: Blob, fileName: string, formatName: string, exportAvatarId?: string | null) => {
+    if (!userId) return
+    try {
+      await saveExport(blob, { userId, avatarId: exportAvatarId, fileName, format: formatName })
+      setHistoryVersion(prev => prev + 1)
+    } catch (error) {
+      console.error('Export history error:', error)
+      toast.error(`${fileName} was downloaded but could not be added to your export history`)
+    }
+  }
+
+  const copyShareLink = async () => {
+    if (!lighting) return
+    try {
+      await navigator.clipboard.writeText(createShareUrl({ avatar: settings, lighting }))
+      toast.success('Share link copied to clipboard')
+    } catch (error) {
+      console.error('Share link error:', error)
+      toast.error('Failed to copy share link')
+    }
+  }
 
-  const handleExport = async (format: ExportFormat) => {
+  // With `openInAR`, devices that support AR Quick Look open the file instead of downloading it
+  const handleExport = async (format: ExportFormat, openInAR = false) => {
+    if (batch.isRunning) return
     setIsExporting(true)
     setActiveExport(format.id)
     setExportProgress(0)
     setExportStage('')
 
     try {
-      // Stage 1: Preparing scene
-      setExportStage('Preparing 3D scene...')
-      setExportProgress(20)
-      await new Promise(resolve => setTimeout(resolve, 800))
-
-      // Stage 2: Processing geometry
-      setExportStage('Processing avatar geometry...')
-      setExportProgress(40)
-      await new Promise(resolve => setTimeout(resolve, 800))
-
-      // Stage 3: Applying textures
-      setExportStage('Applying HD textures...')
-      setExportProgress(60)
-      await new Promise(resolve => setTimeout(resolve, 800))
-
-      // Stage 4: Rendering/Encoding
-      if (format.format === 'PNG' || format.format === 'JPG') {
-        setExportStage('Rendering high-quality image...')
+      const fileName = `avatar-${settings.gender}-${Date.now()}.${format.extension ?? format.format.toLowerCase()}`
+      const runExporter = exporters[format.id]
+
+      if (runExporter) {
+        const blob = await runExporter(format, {
+          settings,
+          avatarName,
+          report: (progress, stage) => {
+            setExportProgress(progress)
+            if (stage) setExportStage(stage)
+          }
+        })
+
+        setExportStage('Finalizing export...')
+        setExportProgress(100)
+        if (openInAR && supportsARQuickLook()) {
+          openARQuickLook(blob)
+        } else {
+          downloadBlob(blob, fileName)
+          if (openInAR) {
+            toast('Open the downloaded USDZ on an iPhone or iPad to place it in AR')
+          }
+        }
+
+        setExportStage('Saving to export history...')
+        await saveToHistory(blob, fileName, format.format, avatarId)
+        onExport(format.id, { quality: format.quality, format: format.format })
       } else {
-        setExportStage('Encoding 3D model...')
-      }
-      setExportProgress(80)
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      // Stage 5: Finalizing
-      setExportStage('Finalizing export...')
-      setExportProgress(100)
-      await new Promise(resolve => setTimeout(resolve, 500))
-
-      // Simulate file creation
-      const mockUrl = `https://storage.example.com/avatars/avatar-${Date.now()}.${format.format.toLowerCase()}`
-      const fileName = `avatar-${settings.gender}-${Date.now()}.${format.format.toLowerCase()}`
-      
-      setExportedFiles(prev => [...prev, {
-        id: format.id,
-        url: mockUrl,
-        name: fileName
-      }])
-
-      onExport(format.id, { quality: format.quality, format: format.format })
+        await simulateExport(format)
+
+        // Stage 5: Finalizing
+        setExportStage('Finalizing export...')
+        setExportProgress(100)
+        await new Promise(resolve => setTimeout(resolve, 500))
 
+        // No file is produced yet, so there is nothing to keep in the history
+        toast(`${format.name} export is not available yet`)
+      }
     } catch (error) {
       console.error('Export error:', error)
+      toast.error(error instanceof Error ? `Failed to export ${format.name}: ${error.message}` : `Failed to export ${format.name}`)
     } finally {
       setIsExporting(false)
       setActiveExport(null)
@@ -160,10 +547,6 @@ export default function ExportPanel({ settings, onExport }: ExportPanelProps) {
     }
   }
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text)
-  }
-
   const getQualityColor = (quality: string) => {
     switch (quality) {
       case 'HD': return 'bg-blue-500'
@@ -181,11 +564,15 @@ export default function ExportPanel({ settings, onExport }: ExportPanelProps) {
       </h3>
 
       <Tabs defaultValue="formats" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 bg-slate-800">
+        <TabsList className="grid w-full grid-cols-3 bg-slate-800">
           <TabsTrigger value="formats" className="text-xs">
             <Download className="w-3 h-3 mr-1" />
             Formats
           </TabsTrigger>
+          <TabsTrigger value="batch" className="text-xs">
+            <Layers className="w-3 h-3 mr-1" />
+            Batch
+          </TabsTrigger>
           <TabsTrigger value="exported" className="text-xs">
             <Share2 className="w-3 h-3 mr-1" />
             Downloads
@@ -233,7 +620,7 @@ export default function ExportPanel({ settings, onExport }: ExportPanelProps) {
                   <Button
                     size="sm"
                     onClick={() => handleExport(format)}
-                    disabled={isExporting}
+                    disabled={isExporting || batch.isRunning}
                     className={`ml-2 ${
                       activeExport === format.id 
                         ? 'bg-green-600' 
@@ -260,67 +647,309 @@ export default function ExportPanel({ settings, onExport }: ExportPanelProps) {
                 <div className="text-slate-300">Muscle: {settings.muscle}%</div>
               </div>
               <div className="space-y-1">
-                <div className="text-slate-400">Quality:</div>
-                <div className="text-slate-300">Render Quality: HD+</div>
-                <div className="text-slate-300">Anti-aliasing: 8x</div>
+                <div className="text-slate-400">Quick Export Quality:</div>
+                <div className="grid grid-cols-3 gap-1">
+                  {(['HD', '4K', '8K'] as const).map((quality) => (
+                    <Button
+                      key={quality}
+                      size="sm"
+                      variant={renderQuality === quality ? 'default' : 'outline'}
+                      onClick={() => onRenderQualityChange(quality)}
+                      className="h-6 px-1 text-xs"
+                    >
+                      {quality}
+                    </Button>
+                  ))}
+                </div>
               </div>
             </div>
+            <div className="flex items-center justify-between mt-3">
+              <Label htmlFor="jpg-background" className="text-xs text-slate-400">JPG Background</Label>
+              <Input
+                id="jpg-background"
+                type="color"
+                value={jpgBackground}
+                onChange={(e) => setJpgBackground(e.target.value)}
+                className="w-12 h-7 p-1 bg-slate-700 border-slate-600"
+              />
+            </div>
           </div>
-        </TabsContent>
 
-        <TabsContent value="exported" className="space-y-3 mt-4">
-          {exportedFiles.length === 0 ? (
-            <div className="text-center py-8 text-slate-400">
-              <Download className="w-12 h-12 mx-auto mb-2 opacity-50" />
-              <p className="text-sm">No exports yet</p>
-              <p className="text-xs mt-1">Export your avatar to see downloads here</p>
-            </div>
-          ) : (
-            <div className="space-y-2">
-              {exportedFiles.map((file, index) => (
-                <div 
-                  key={index}
-                  className="border border-slate-600 rounded-lg p-3"
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">Pose</h4>
+            <div className="flex flex-wrap gap-1">
+              {[{ id: null, name: 'As in Viewport' }, ...poses].map((pose) => (
+                <Button
+                  key={pose.id ?? 'viewport'}
+                  size="sm"
+                  variant={exportPoseId === pose.id ? 'default' : 'outline'}
+                  onClick={() => setExportPoseId(pose.id)}
+                  className="h-6 px-2 text-xs"
                 >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-3">
-                      <CheckCircle className="w-4 h-4 text-green-400" />
-                      <div>
-                        <div className="text-sm font-medium text-slate-200">{file.name}</div>
-                        <div className="text-xs text-slate-400">Ready to download</div>
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={() => copyToClipboard(file.url)}
-                        className="border-slate-600"
-                      >
-                        <Copy className="w-3 h-3" />
-                      </Button>
-                      <Button 
-                        size="sm"
-                        onClick={() => window.open(file.url, '_blank')}
-                        className="bg-green-600 hover:bg-green-700"
-                      >
-                        <ExternalLink className="w-3 h-3" />
-                      </Button>
-                    </div>
-                  </div>
-                </div>
+                  {pose.name}
+                </Button>
               ))}
-              
-              <div className="mt-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
-                <div className="text-sm text-green-400 font-medium mb-1">
-                  {exportedFiles.length} file{exportedFiles.length !== 1 ? 's' : ''} ready
-                </div>
-                <div className="text-xs text-green-300">
-                  Files are available for 7 days. Download to keep permanently.
+            </div>
+            <div className="text-xs text-slate-500">
+              Used for images, turntables, sheets and GLB, USDZ, OBJ and STL models. VRM avatars always export at rest.
+            </div>
+          </div>
+
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">GLB Animation</h4>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="embed-animations" className="text-xs text-slate-400">
+                Embed Clips ({animations.length})
+              </Label>
+              <Switch
+                id="embed-animations"
+                checked={embedAnimations}
+                onCheckedChange={setEmbedAnimations}
+                disabled={animations.length === 0}
+              />
+            </div>
+            <div className="text-xs text-slate-500">
+              Built-in, embedded and imported BVH clips, retargeted to this avatar.
+            </div>
+          </div>
+
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300 flex items-center">
+              <Share2 className="w-3 h-3 mr-1" />
+              Share Link
+            </h4>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">
+                Anyone with the link sees this avatar and lighting, no sign-in needed
+              </span>
+              <Button
+                size="sm"
+                onClick={copyShareLink}
+                disabled={!lighting}
+                className="h-7 px-2 text-xs bg-blue-600 hover:bg-blue-700"
+              >
+                <Copy className="w-3 h-3 mr-1" />
+                Copy Link
+              </Button>
+            </div>
+          </div>
+
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">AR Preview</h4>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">
+                Place the avatar in your room at {(settings.height / 100).toFixed(2)}m
+              </span>
+              <Button
+                size="sm"
+                onClick={() => handleExport(exportFormats.find(format => format.id === 'usdz-ar')!, true)}
+                disabled={isExporting || batch.isRunning}
+                className="h-7 px-2 text-xs bg-blue-600 hover:bg-blue-700"
+              >
+                <ExternalLink className="w-3 h-3 mr-1" />
+                View in AR
+              </Button>
+            </div>
+          </div>
+
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">VRM Options</h4>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">Materials</span>
+              <div className="flex space-x-1">
+                {([['mtoon', 'MToon'], ['unlit', 'Unlit']] as const).map(([style, label]) => (
+                  <Button
+                    key={style}
+                    size="sm"
+                    variant={vrmMaterialStyle === style ? 'default' : 'outline'}
+                    onClick={() => setVrmMaterialStyle(style)}
+                    className="h-6 px-2 text-xs"
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="text-xs text-slate-500">
+              Exported as "{avatarName || 'Untitled Avatar'}" by {author || 'Unknown'}
+            </div>
+          </div>
+
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">Character Sheet Options</h4>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sheet-angles" className="text-xs text-slate-400">Yaw Angles</Label>
+              <Input
+                id="sheet-angles"
+                type="number"
+                min={0}
+                max={36}
+                value={sheetAngles}
+                onChange={(e) => setSheetAngles(Math.min(36, Math.max(0, Math.round(Number(e.target.value)) || 0)))}
+                className="w-20 h-7 text-xs bg-slate-700 border-slate-600"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">Frame Size</span>
+              <div className="flex space-x-1">
+                {[128, 256, 512].map((size) => (
+                  <Button
+                    key={size}
+                    size="sm"
+                    variant={sheetFrameSize === size ? 'default' : 'outline'}
+                    onClick={() => setSheetFrameSize(size)}
+                    className="h-6 px-2 text-xs"
+                  >
+                    {size}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">Orthographic Views</span>
+              <div className="flex space-x-1">
+                {(['front', 'side', 'back'] as const).map((view) => (
+                  <Button
+                    key={view}
+                    size="sm"
+                    variant={sheetViews.includes(view) ? 'default' : 'outline'}
+                    onClick={() => toggleSheetView(view)}
+                    className="h-6 px-2 text-xs capitalize"
+                  >
+                    {view}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">3D Print Options</h4>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="figurine-height" className="text-xs text-slate-400">Figurine Height (mm)</Label>
+              <Input
+                id="figurine-height"
+                type="number"
+                min={30}
+                max={500}
+                value={figurineHeight}
+                onChange={(e) => setFigurineHeight(Math.min(500, Math.max(30, Number(e.target.value) || 30)))}
+                className="w-20 h-7 text-xs bg-slate-700 border-slate-600"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="base-plate" className="text-xs text-slate-400">Base Plate</Label>
+              <Switch id="base-plate" checked={basePlate} onCheckedChange={setBasePlate} />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400">STL Encoding</span>
+              <div className="flex space-x-1">
+                {(['binary', 'ascii'] as const).map((encoding) => (
+                  <Button
+                    key={encoding}
+                    size="sm"
+                    variant={stlEncoding === encoding ? 'default' : 'outline'}
+                    onClick={() => setStlEncoding(encoding)}
+                    className="h-6 px-2 text-xs capitalize"
+                  >
+                    {encoding}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {printReport && (
+              <div className="text-xs text-slate-300 border-t border-slate-600 pt-2">
+                <div>Volume: {(printReport.volumeMm3 / 1000).toFixed(1)} cm³ (≈ {(printReport.volumeMm3 / 1000).toFixed(1)} ml resin)</div>
+                <div className="text-slate-400">
+                  Size: {printReport.dimensionsMm.map((size) => size.toFixed(0)).join(' × ')} mm
                 </div>
               </div>
+            )}
+          </div>
+
+          <div className="p-3 bg-slate-700/30 rounded-lg space-y-3">
+            <h4 className="text-sm font-medium text-slate-300">Turntable Options</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="turntable-frames" className="text-xs text-slate-400">Frames</Label>
+                <Input
+                  id="turntable-frames"
+                  type="number"
+                  min={12}
+                  max={360}
+                  value={turntableFrames}
+                  onChange={(e) => setTurntableFrames(Math.min(360, Math.max(12, Math.round(Number(e.target.value)) || 12)))}
+                  className="h-7 text-xs bg-slate-700 border-slate-600"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="turntable-fps" className="text-xs text-slate-400">FPS</Label>
+                <Input
+                  id="turntable-fps"
+                  type="number"
+                  min={6}
+                  max={60}
+                  value={turntableFps}
+                  onChange={(e) => setTurntableFps(Math.min(60, Math.max(6, Math.round(Number(e.target.value)) || 6)))}
+                  className="h-7 text-xs bg-slate-700 border-slate-600"
+                />
+              </div>
             </div>
-          )}
+            <div className="space-y-1">
+              <span className="text-xs text-slate-400">Resolution</span>
+              <div className="grid grid-cols-4 gap-1">
+                {(Object.keys(TURNTABLE_SIZES) as TurntableSize[]).map((size) => (
+                  <Button
+                    key={size}
+                    size="sm"
+                    variant={turntableSize === size ? 'default' : 'outline'}
+                    onClick={() => setTurntableSize(size)}
+                    className="h-6 px-1 text-xs"
+                  >
+                    {size}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="turntable-transparent" className="text-xs text-slate-400">Transparent (GIF/PNG)</Label>
+              <Switch id="turntable-transparent" checked={turntableTransparent} onCheckedChange={setTurntableTransparent} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="turntable-background" className="text-xs text-slate-400">Background</Label>
+              <Input
+                id="turntable-background"
+                type="color"
+                value={turntableBackground}
+                onChange={(e) => setTurntableBackground(e.target.value)}
+                disabled={turntableTransparent}
+                className="w-12 h-7 p-1 bg-slate-700 border-slate-600"
+              />
+            </div>
+            <div className="text-xs text-slate-500">
+              {(turntableFrames / turntableFps).toFixed(1)}s per revolution
+            </div>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="batch" className="space-y-3 mt-4">
+          <BatchExportPanel
+            savedAvatars={savedAvatars}
+            formats={exportFormats.filter(format => exporters[format.id])}
+            jobs={batch.jobs}
+            isRunning={batch.isRunning}
+            disabled={isExporting || !canvas}
+            onEnqueue={batch.enqueue}
+            onCancel={batch.cancel}
+            onCancelAll={batch.cancelAll}
+            onRetry={batch.retry}
+            onClear={batch.clear}
+            onArchive={(archive, fileName) => saveToHistory(archive, fileName, 'ZIP')}
+          />
+        </TabsContent>
+
+        <TabsContent value="exported" className="space-y-3 mt-4">
+          <ExportHistory key={historyVersion} userId={userId} savedAvatars={savedAvatars} />
         </TabsContent>
       </Tabs>
     </Card>
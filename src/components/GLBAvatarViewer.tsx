@@ -8,23 +8,10 @@ import { Loader2, Download, Sparkles, Zap, RotateCcw } from 'lucide-react'
 
 // Import the basic Avatar3D component as fallback
 import Avatar3D from './Avatar3D'
+import type { AvatarSettings } from '../lib/avatar/settings'
 
 interface GLBAvatarViewerProps {
-  settings: {
-    gender: 'male' | 'female' | 'non-binary'
-    height: number
-    muscle: number
-    bodyFat: number
-    shoulderWidth: number
-    waistSize: number
-    skinTone: number
-    facialStructure: number
-    eyeSize: number
-    noseSize: number
-    mouthSize: number
-    hairStyle: number
-    hairColor: number
-  }
+  settings: AvatarSettings
   lighting: {
     ambientIntensity: number
     directionalIntensity: number
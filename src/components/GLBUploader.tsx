@@ -19,8 +19,11 @@ import {
 } from 'lucide-react'
 import toast from 'react-hot-toast'
 import { blink } from '../blink/client'
+import { modelStoragePath } from '../lib/avatar/models'
 
 interface GLBUploaderProps {
+  // Models are stored under the signed-in user's own prefix
+  userId: string
   onModelUploaded: (modelUrl: string, modelName: string) => void
   onModelRemoved: () => void
   currentModel?: string | null
@@ -33,7 +36,7 @@ interface UploadedModel {
   uploadedAt: string
 }
 
-export default function GLBUploader({ onModelUploaded, onModelRemoved, currentModel }: GLBUploaderProps) {
+export default function GLBUploader({ userId, onModelUploaded, onModelRemoved, currentModel }: GLBUploaderProps) {
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [dragActive, setDragActive] = useState(false)
@@ -124,7 +127,7 @@ export default function GLBUploader({ onModelUploaded, onModelRemoved, currentMo
       // Upload to Blink storage
       const { publicUrl } = await blink.storage.upload(
         selectedFile,
-        `models/${selectedFile.name}`,
+        modelStoragePath(userId, selectedFile.name),
         {
           upsert: true,
           onProgress: (percent) => {
@@ -0,0 +1,53 @@
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { History, Undo2, Redo2 } from 'lucide-react'
+
+interface HistoryPanelProps {
+  steps: { id: number; label: string }[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+export default function HistoryPanel({ steps, index, canUndo, canRedo, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  return (
+    <Card className="glass-panel border-slate-600 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <History className="w-4 h-4 mr-2 text-blue-400" />
+          History
+        </h3>
+        <div className="flex space-x-1">
+          <Button size="sm" variant="outline" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="h-7 px-2 border-slate-600">
+            <Undo2 className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="h-7 px-2 border-slate-600">
+            <Redo2 className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {/* Newest first; steps after the current one are the redo branch */}
+        {steps.map((step, stepIndex) => ({ step, stepIndex })).reverse().map(({ step, stepIndex }) => (
+          <button
+            key={step.id}
+            onClick={() => onJump(stepIndex)}
+            className={`w-full text-left text-xs px-2 py-1 rounded transition-colors ${
+              stepIndex === index
+                ? 'bg-blue-600/30 text-blue-200'
+                : stepIndex > index
+                  ? 'text-slate-500 hover:bg-slate-700/50'
+                  : 'text-slate-300 hover:bg-slate-700/50'
+            }`}
+          >
+            {step.label}
+          </button>
+        ))}
+      </div>
+    </Card>
+  )
+}
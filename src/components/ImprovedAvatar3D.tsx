@@ -1,50 +1,154 @@
-import React, { useRef, useState, useEffect, Suspense } from 'react'
-import { Canvas, useFrame, useThree } from '@react-three/fiber'
-import { OrbitControls, Environment, ContactShadows, Text, useGLTF } from '@react-three/drei'
+import React, { useRef, useState, useEffect, useMemo, useCallback, Suspense } from 'react'
+import { Canvas, createPortal, useFrame, useThree } from '@react-three/fiber'
+import { OrbitControls, TransformControls, Environment, ContactShadows, Text, useGLTF } from '@react-three/drei'
 import { Mesh, Group, DirectionalLight, AmbientLight } from 'three'
 import * as THREE from 'three'
+import { clone as cloneWithSkeletons } from 'three/examples/jsm/utils/SkeletonUtils.js'
+import type { AvatarCanvasHandle } from '../lib/export/scene'
+import type { AvatarSettings, LightingSettings } from '../lib/avatar/settings'
+import { applyBodyShape, createBodyRig, disposeBodyRig, type BodyBoneName, type BodyBuild } from '../lib/avatar/body'
+import { applyPose, capturePose, type PoseRotations } from '../lib/avatar/poses'
+import { createLocomotionClips, type AnimationPlayback, type AnimationTimeline } from '../lib/avatar/animation'
+import { retargetMotion, type MotionCapture } from '../lib/avatar/bvh'
 
 interface ImprovedAvatar3DProps {
-  settings: {
-    gender: 'male' | 'female' | 'non-binary'
-    height: number
-    muscle: number
-    bodyFat: number
-    shoulderWidth: number
-    waistSize: number
-    skinTone: number
-    facialStructure: number
-    eyeSize: number
-    noseSize: number
-    mouthSize: number
-    hairStyle: number
-    hairColor: number
-  }
-  lighting: {
-    ambientIntensity: number
-    directionalIntensity: number
-    directionalPosition: [number, number, number]
-    environmentIntensity: number
-    shadows: boolean
-  }
+  settings: AvatarSettings
+  lighting: LightingSettings
   customModelUrl?: string | null
+  onCanvasReady?: (handle: AvatarCanvasHandle) => void
+  // Bone rotations for the generated body; custom models keep their own stance
+  pose?: PoseRotations
+  // Shows joint markers and a rotation gizmo; edits are reported when a drag ends
+  poseEditing?: boolean
+  onPoseChange?: (rotations: PoseRotations) => void
+  playback?: AnimationPlayback
+  // Imported BVH takes, retargeted onto whichever avatar is showing
+  motions?: MotionCapture[]
+  // Clips the current avatar can play: embedded in a custom model or built in for the generated
+  // body, followed by the retargeted takes
+  onClipsChange?: (clips: THREE.AnimationClip[]) => void
+  onTimelineChange?: (timeline: AnimationTimeline | null) => void
+}
+
+type AnimationProps = Pick<ImprovedAvatar3DProps, 'playback' | 'motions' | 'onClipsChange' | 'onTimelineChange'>
+
+// The avatar's own clips plus every imported take retargeted onto `root`, sized to its rest
+// height. A take that can't be retargeted is left out rather than taking the avatar down with it
+function useAvatarClips(root: THREE.Object3D | null, ownClips: THREE.AnimationClip[], motions: MotionCapture[] | undefined) {
+  return useMemo(() => {
+    if (!root || !motions?.length) return ownClips
+    const retargeted = motions.flatMap((motion) => {
+      try {
+        return [retargetMotion(motion, root)]
+      } catch (error) {
+        console.warn(`Could not retarget ${motion.name}:`, error)
+        return []
+      }
+    })
+    return [...ownClips, ...retargeted]
+  }, [root, ownClips, motions])
+}
+
+/**
+ * Drive `root` with an animation mixer: switching clips cross-fades from the one
+ * playing, and clearing the clip stops the mixer, which puts the bones back as
+ * they were before playback started.
+ */
+function useClipPlayback(root: THREE.Object3D | null, clips: THREE.AnimationClip[], { playback, onClipsChange, onTimelineChange }: AnimationProps) {
+  const mixer = useMemo(() => root && new THREE.AnimationMixer(root), [root])
+  const actionRef = useRef<THREE.AnimationAction | null>(null)
+  const clipName = playback?.clip ?? null
+  // Read when a clip starts; changing it mid-clip doesn't restart anything
+  const crossFade = useRef(0)
+  crossFade.current = playback?.crossFade ?? 0
+
+  useEffect(() => {
+    onClipsChange?.(clips)
+  }, [clips, onClipsChange])
+
+  useEffect(() => () => {
+    mixer?.stopAllAction()
+    actionRef.current = null
+    onTimelineChange?.(null)
+  }, [mixer, onTimelineChange])
+
+  useEffect(() => {
+    if (!mixer) return
+    const clip = clips.find((candidate) => candidate.name === clipName)
+    const previous = actionRef.current
+    if (!clip) {
+      mixer.stopAllAction()
+      actionRef.current = null
+      onTimelineChange?.(null)
+      return
+    }
+
+    const action = mixer.clipAction(clip)
+    if (action === previous) return
+    action.reset().play()
+    if (previous) {
+      previous.crossFadeTo(action, crossFade.current, false)
+    }
+    actionRef.current = action
+    onTimelineChange?.({
+      clip: clip.name,
+      duration: clip.duration,
+      getTime: () => action.time,
+      // Reset first so a one-shot clip that already finished can be scrubbed and played again
+      seek: (time) => {
+        action.reset()
+        action.time = time
+        mixer.update(0)
+      }
+    })
+  }, [mixer, clips, clipName, onTimelineChange])
+
+  // Pausing stops the mixer's clock, so a cross-fade in progress holds too
+  useEffect(() => {
+    if (!mixer || !playback) return
+    mixer.timeScale = playback.playing ? playback.speed : 0
+    const action = actionRef.current
+    if (action) {
+      action.setLoop(playback.loop ? THREE.LoopRepeat : THREE.LoopOnce, Infinity)
+      action.clampWhenFinished = true
+    }
+  }, [mixer, clipName, playback])
+
+  useFrame((_, delta) => {
+    mixer?.update(delta)
+  })
 }
 
+const NO_CLIPS: THREE.AnimationClip[] = []
+
 // Custom GLB Model Component
-function CustomGLBModel({ url, settings }: { url: string; settings: any }) {
+function CustomGLBModel({ url, settings, motions, onLoad, ...animation }: { url: string; settings: AvatarSettings; onLoad?: (url: string) => void } & AnimationProps) {
   const [modelError, setModelError] = useState(false)
   const modelRef = useRef<THREE.Group>(null)
 
-  let scene: THREE.Group | null = null
+  let source: THREE.Group | null = null
+  let clips: THREE.AnimationClip[] = NO_CLIPS
   
   try {
     const gltf = useGLTF(url)
-    scene = gltf.scene.clone()
+    source = gltf.scene
+    clips = gltf.animations
   } catch (error) {
     console.error('Failed to load GLB model:', error)
     setModelError(true)
   }
 
+  // Plain clone() leaves skinned meshes bound to the cached model's bones. Cloned once
+  // per model rather than per render, so the animation mixer keeps its targets
+  const scene = useMemo(() => source && cloneWithSkeletons(source) as THREE.Group, [source])
+  // Retargeted to the model's own size; the height / 180 scaling below stretches it with the body
+  const allClips = useAvatarClips(scene, clips, motions)
+  useClipPlayback(scene, allClips, animation)
+
+  useEffect(() => {
+    if (scene) onLoad?.(url)
+  }, [scene, url, onLoad])
+
   useFrame((state) => {
     if (modelRef.current && !modelError) {
       // Gentle rotation animation
@@ -97,7 +201,7 @@ function CustomGLBModel({ url, settings }: { url: string; settings: any }) {
   }
 
   return (
-    <group ref={modelRef}>
+    <group ref={modelRef} name="Avatar">
       <primitive object={scene} />
       {/* Height indicator */}
       <Text
@@ -106,6 +210,7 @@ function CustomGLBModel({ url, settings }: { url: string; settings: any }) {
         color="#60A5FA"
         anchorX="left"
         anchorY="middle"
+        userData={{ exportIgnore: true }}
       >
         {(settings.height / 100).toFixed(2)}m
       </Text>
@@ -113,43 +218,161 @@ function CustomGLBModel({ url, settings }: { url: string; settings: any }) {
   )
 }
 
-// Improved realistic avatar using smoother geometry
-function RealisticAvatarMesh({ settings, lighting }: ImprovedAvatar3DProps) {
+// How long the build sliders must rest before the body mesh is regenerated
+const BODY_REBUILD_DELAY_MS = 150
+
+// Longest an export waits for the avatar to catch up before going ahead with what's shown,
+// so a model that never loads doesn't hold up a batch
+const AVATAR_READY_TIMEOUT_MS = 20_000
+
+/**
+ * Work that leaves the avatar behind the viewport's props, by reason: the body waiting to
+ * rebuild, or a custom model still loading. Exports wait on it instead of a frame count.
+ */
+function createAvatarReadiness() {
+  const pending = new Set<string>()
+  let waiters: (() => void)[] = []
+
+  return {
+    setPending(reason: string, isPending: boolean) {
+      if (isPending) {
+        pending.add(reason)
+        return
+      }
+      pending.delete(reason)
+      if (pending.size === 0) {
+        waiters.forEach((resolve) => resolve())
+        waiters = []
+      }
+    },
+    wait(): Promise<void> {
+      if (pending.size === 0) return Promise.resolve()
+      return new Promise((resolve) => {
+        const timer = setTimeout(resolve, AVATAR_READY_TIMEOUT_MS)
+        waiters.push(() => {
+          clearTimeout(timer)
+          resolve()
+        })
+      })
+    }
+  }
+}
+
+// The eyes follow the head, so they get no marker of their own
+const POSABLE_BONES: BodyBoneName[] = [
+  'hips', 'spine', 'chest', 'upperChest', 'neck', 'head',
+  'leftShoulder', 'leftUpperArm', 'leftLowerArm', 'leftHand',
+  'rightShoulder', 'rightUpperArm', 'rightLowerArm', 'rightHand',
+  'leftUpperLeg', 'leftLowerLeg', 'leftFoot', 'leftToes',
+  'rightUpperLeg', 'rightLowerLeg', 'rightFoot', 'rightToes'
+]
+
+// Clickable joint markers and a rotate gizmo on the selected bone
+function PoseGizmo({ bones, onPoseChange }: { bones: Record<BodyBoneName, THREE.Bone>; onPoseChange?: (rotations: PoseRotations) => void }) {
+  const [selected, setSelected] = useState<BodyBoneName | null>(null)
+  const changed = useRef(false)
+
+  return (
+    <>
+      {POSABLE_BONES.map((name) => (
+        <React.Fragment key={name}>
+          {createPortal(
+            <mesh
+              renderOrder={1}
+              userData={{ exportIgnore: true }}
+              onClick={(event) => {
+                event.stopPropagation()
+                setSelected(name)
+              }}
+            >
+              <sphereGeometry args={[0.018, 12, 12]} />
+              {/* Drawn over the body so joints inside the mesh stay clickable */}
+              <meshBasicMaterial color={name === selected ? '#F59E0B' : '#60A5FA'} depthTest={false} transparent opacity={0.85} />
+            </mesh>,
+            bones[name]
+          )}
+        </React.Fragment>
+      ))}
+
+      {/* Lives at the scene root: the gizmo places itself in world space */}
+      {selected && (
+        <TransformControls
+          ref={(controls) => {
+            if (controls) controls.userData.exportIgnore = true
+          }}
+          object={bones[selected]}
+          mode="rotate"
+          space="local"
+          size={0.7}
+          onObjectChange={() => { changed.current = true }}
+          onMouseUp={() => {
+            if (!changed.current) return
+            changed.current = false
+            onPoseChange?.(capturePose(bones))
+          }}
+        />
+      )}
+    </>
+  )
+}
+
+// Parametric avatar: one skinned body mesh, with eyes, lips and hair riding on its head and eye bones
+function RealisticAvatarMesh({ settings, lighting, pose, poseEditing, onPoseChange, motions, onRebuildingChange, ...animation }: ImprovedAvatar3DProps & { onRebuildingChange?: (rebuilding: boolean) => void }) {
   const groupRef = useRef<Group>(null)
   const { scene } = useThree()
 
-  // Animate the avatar
+  // Animate the avatar; hold still while posing so the gizmo stays under the cursor
   useFrame((state) => {
     if (groupRef.current) {
-      groupRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.1
+      groupRef.current.rotation.y = poseEditing ? 0 : Math.sin(state.clock.elapsedTime * 0.5) * 0.1
     }
   })
 
-  // Calculate body proportions based on settings
-  const heightScale = settings.height / 180
-  const muscleScale = 1 + (settings.muscle - 50) * 0.004
-  const bodyFatScale = 1 + (settings.bodyFat - 20) * 0.003
-  const shoulderScale = 1 + (settings.shoulderWidth - 50) * 0.003
-  const waistScale = 1 + (settings.waistSize - 50) * 0.002
+  // Regenerating the body takes a few hundred milliseconds, so wait until a slider drag settles
+  const { gender, height, shoulderWidth } = settings
+  const [build, setBuild] = useState<BodyBuild>({ gender, height, shoulderWidth })
+  useEffect(() => {
+    const timer = setTimeout(() => setBuild({ gender, height, shoulderWidth }), BODY_REBUILD_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [gender, height, shoulderWidth])
+
+  const rig = useMemo(() => createBodyRig(build), [build])
+  useEffect(() => () => disposeBodyRig(rig), [rig])
+
+  // The body is out of date until the debounced build catches up with the settings
+  const rebuilding = build.gender !== gender || build.height !== height || build.shoulderWidth !== shoulderWidth
+  useEffect(() => {
+    onRebuildingChange?.(rebuilding)
+  }, [rebuilding, onRebuildingChange])
+  useEffect(() => () => onRebuildingChange?.(false), [onRebuildingChange])
+
+  // Until the rebuild lands, stretch the current body to the requested height
+  const pendingScale = settings.height / build.height
 
   // Skin tone calculation
   const skinHue = (settings.skinTone / 100) * 0.15
   const skinSaturation = 0.3 + (settings.skinTone / 100) * 0.4
   const skinLightness = 0.4 + (settings.skinTone / 100) * 0.4
-  const skinColor = new THREE.Color().setHSL(skinHue, skinSaturation, skinLightness)
 
   // Hair color calculation
   const hairHue = (settings.hairColor / 100) * 0.8
   const hairColor = new THREE.Color().setHSL(hairHue, 0.8, 0.3)
 
-  // Gender-specific proportions
-  const genderMultipliers = {
-    male: { shoulderBonus: 1.2, waistReduction: 0.9, muscle: 1.1, hipReduction: 0.9 },
-    female: { shoulderBonus: 0.9, waistReduction: 0.7, muscle: 0.8, hipReduction: 1.1 },
-    'non-binary': { shoulderBonus: 1.0, waistReduction: 0.8, muscle: 0.95, hipReduction: 1.0 }
-  }
-  
-  const genderMods = genderMultipliers[settings.gender]
+  const locomotion = useMemo(() => createLocomotionClips(rig.bones), [rig])
+  const clips = useAvatarClips(rig.mesh, locomotion, motions)
+  useClipPlayback(rig.mesh, clips, animation)
+
+  // A rebuilt rig starts out at rest, so this runs for new rigs as well as new poses.
+  // Stopping a clip puts back the bones from before it played, so pose them again then
+  const playing = Boolean(animation.playback?.clip)
+  useEffect(() => {
+    applyPose(rig.bones, pose ?? {})
+  }, [rig, pose, playing])
+
+  useEffect(() => {
+    applyBodyShape(rig.mesh, settings)
+    ;(rig.mesh.material as THREE.MeshStandardMaterial).color.setHSL(skinHue, skinSaturation, skinLightness)
+  }, [rig, settings, skinHue, skinSaturation, skinLightness])
 
   useEffect(() => {
     // Update lighting
@@ -165,237 +388,62 @@ function RealisticAvatarMesh({ settings, lighting }: ImprovedAvatar3DProps) {
     })
   }, [lighting, scene])
 
+  const { crown, headRadii } = rig.face
+  // Hair was sized for an 11cm head; keep it in proportion with the generated one
+  const hairScale = headRadii.y / 0.11
+
   return (
-    <group ref={groupRef} scale={[heightScale, heightScale, heightScale]}>
-      {/* Head - More realistic proportions */}
-      <mesh position={[0, 1.6, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[0.11 * (1 + settings.facialStructure * 0.002), 32, 32]} />
-        <meshStandardMaterial 
-          color={skinColor} 
-          roughness={0.7} 
-          metalness={0.05}
-          normalScale={new THREE.Vector2(0.5, 0.5)}
-        />
-      </mesh>
-
-      {/* Eyes - More detailed */}
-      <group position={[0, 1.63, 0.08]}>
-        {/* Eye sockets */}
-        <mesh position={[-0.035, 0, 0]} castShadow>
-          <sphereGeometry args={[0.015 * (1 + settings.eyeSize * 0.002), 16, 16]} />
-          <meshStandardMaterial color="#ffffff" />
-        </mesh>
-        <mesh position={[0.035, 0, 0]} castShadow>
-          <sphereGeometry args={[0.015 * (1 + settings.eyeSize * 0.002), 16, 16]} />
-          <meshStandardMaterial color="#ffffff" />
-        </mesh>
-        {/* Pupils */}
-        <mesh position={[-0.035, 0, 0.01]} castShadow>
-          <sphereGeometry args={[0.008, 12, 12]} />
-          <meshStandardMaterial color="#1a1a2e" />
-        </mesh>
-        <mesh position={[0.035, 0, 0.01]} castShadow>
-          <sphereGeometry args={[0.008, 12, 12]} />
-          <meshStandardMaterial color="#1a1a2e" />
-        </mesh>
+    <>
+      <group ref={groupRef} name="Avatar" position={[0, -0.5, 0]} scale={[pendingScale, pendingScale, pendingScale]}>
+        {/* Body, eyes and lips; face sliders are morph targets on these meshes */}
+        <primitive object={rig.mesh} />
+
+        {/* Hair - More varied styles, riding on the head bone */}
+        {createPortal(
+          <group position={crown} scale={[hairScale, hairScale, hairScale]}>
+            {settings.hairStyle === 1 && (
+              <mesh name="Hair" position={[0, 0.03, -0.01]} castShadow>
+                <sphereGeometry args={[0.12, 32, 32, 0, Math.PI * 2, 0, Math.PI * 0.45]} />
+                <meshStandardMaterial name="Hair" color={hairColor} roughness={0.9} />
+              </mesh>
+            )}
+            {settings.hairStyle === 2 && (
+              <mesh name="Hair" position={[0, 0.06, -0.02]} castShadow>
+                <cylinderGeometry args={[0.11, 0.13, 0.18, 16]} />
+                <meshStandardMaterial name="Hair" color={hairColor} roughness={0.9} />
+              </mesh>
+            )}
+            {settings.hairStyle === 3 && (
+              <mesh name="Hair" position={[0, 0.05, -0.01]} castShadow>
+                <sphereGeometry args={[0.13, 16, 16, 0, Math.PI * 2, 0, Math.PI * 0.4]} />
+                <meshStandardMaterial name="Hair" color={hairColor} roughness={0.95} />
+              </mesh>
+            )}
+            {settings.hairStyle === 4 && (
+              <mesh name="Hair" position={[0, 0.02, -0.03]} castShadow>
+                <sphereGeometry args={[0.13, 12, 12]} />
+                <meshStandardMaterial name="Hair" color={hairColor} roughness={0.95} />
+              </mesh>
+            )}
+          </group>,
+          rig.bones.head
+        )}
+
+        {/* Height indicator */}
+        <Text
+          position={[0.4, settings.height / 200, 0]}
+          fontSize={0.06}
+          color="#60A5FA"
+          anchorX="left"
+          anchorY="middle"
+          userData={{ exportIgnore: true }}
+        >
+          {(settings.height / 100).toFixed(2)}m
+        </Text>
       </group>
 
-      {/* Nose - More realistic shape */}
-      <mesh position={[0, 1.58, 0.09]} castShadow>
-        <coneGeometry args={[0.015 * (1 + settings.noseSize * 0.002), 0.03, 8]} />
-        <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.98)} roughness={0.8} />
-      </mesh>
-
-      {/* Mouth - More detailed */}
-      <mesh position={[0, 1.54, 0.08]} castShadow>
-        <sphereGeometry args={[0.025 * (1 + settings.mouthSize * 0.002), 16, 8, 0, Math.PI * 2, 0, Math.PI * 0.5]} />
-        <meshStandardMaterial color="#8B2635" roughness={0.3} />
-      </mesh>
-
-      {/* Hair - More varied styles */}
-      {settings.hairStyle === 1 && (
-        <mesh position={[0, 1.72, -0.01]} castShadow>
-          <sphereGeometry args={[0.12, 32, 32, 0, Math.PI * 2, 0, Math.PI * 0.8]} />
-          <meshStandardMaterial color={hairColor} roughness={0.9} />
-        </mesh>
-      )}
-      {settings.hairStyle === 2 && (
-        <mesh position={[0, 1.75, -0.02]} castShadow>
-          <cylinderGeometry args={[0.11, 0.13, 0.18, 16]} />
-          <meshStandardMaterial color={hairColor} roughness={0.9} />
-        </mesh>
-      )}
-      {settings.hairStyle === 3 && (
-        <mesh position={[0, 1.78, 0]} castShadow>
-          <sphereGeometry args={[0.13, 16, 16, 0, Math.PI * 2, 0, Math.PI * 0.7]} />
-          <meshStandardMaterial color={hairColor} roughness={0.95} />
-        </mesh>
-      )}
-      {settings.hairStyle === 4 && (
-        <mesh position={[0, 1.7, 0]} castShadow>
-          <sphereGeometry args={[0.14, 12, 12]} />
-          <meshStandardMaterial color={hairColor} roughness={0.95} />
-        </mesh>
-      )}
-
-      {/* Neck - More realistic */}
-      <mesh position={[0, 1.45, 0]} castShadow receiveShadow>
-        <cylinderGeometry args={[0.055, 0.065, 0.12, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} metalness={0.05} />
-      </mesh>
-
-      {/* Torso - More anatomically correct */}
-      <mesh position={[0, 1.1, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[
-          0.18 * shoulderScale * muscleScale * bodyFatScale * genderMods.shoulderBonus, 
-          0.32, 
-          0.12 * muscleScale * bodyFatScale
-        ], 16, 16, 0, Math.PI * 2, 0, Math.PI} />
-        <meshStandardMaterial 
-          color={skinColor} 
-          roughness={0.6} 
-          metalness={0.05}
-          normalScale={new THREE.Vector2(0.3, 0.3)}
-        />
-      </mesh>
-
-      {/* Chest definition for muscular builds */}
-      {settings.muscle > 30 && (
-        <>
-          <mesh position={[-0.07, 1.25, 0.08]} castShadow>
-            <sphereGeometry args={[0.05 * muscleScale * genderMods.muscle, 16, 16, 0, Math.PI * 2, 0, Math.PI * 0.6]} />
-            <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.96)} roughness={0.5} />
-          </mesh>
-          <mesh position={[0.07, 1.25, 0.08]} castShadow>
-            <sphereGeometry args={[0.05 * muscleScale * genderMods.muscle, 16, 16, 0, Math.PI * 2, 0, Math.PI * 0.6]} />
-            <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.96)} roughness={0.5} />
-          </mesh>
-        </>
-      )}
-
-      {/* Abdominal definition */}
-      {settings.muscle > 40 && settings.bodyFat < 25 && (
-        <group position={[0, 1.0, 0.09]}>
-          {[0, -0.08, -0.16].map((yOffset, index) => (
-            <mesh key={index} position={[0, yOffset, 0]} castShadow>
-              <sphereGeometry args={[0.04, 12, 8, 0, Math.PI * 2, 0, Math.PI * 0.5]} />
-              <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.94)} roughness={0.4} />
-            </mesh>
-          ))}
-        </group>
-      )}
-
-      {/* Waist/Hips - Gender-specific shaping */}
-      <mesh position={[0, 0.75, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[
-          0.14 * waistScale * bodyFatScale * genderMods.waistReduction, 
-          0.16 * bodyFatScale * genderMods.hipReduction, 
-          0.10 * bodyFatScale
-        ], 16, 16} />
-        <meshStandardMaterial color={skinColor} roughness={0.6} metalness={0.05} />
-      </mesh>
-
-      {/* Arms - More realistic with joints */}
-      {/* Upper arms */}
-      <mesh position={[-0.22 * shoulderScale * genderMods.shoulderBonus, 1.15, 0]} rotation={[0, 0, 0.15]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.04 * muscleScale, 0.25, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-      <mesh position={[0.22 * shoulderScale * genderMods.shoulderBonus, 1.15, 0]} rotation={[0, 0, -0.15]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.04 * muscleScale, 0.25, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-
-      {/* Biceps for muscular builds */}
-      {settings.muscle > 50 && (
-        <>
-          <mesh position={[-0.22 * shoulderScale * genderMods.shoulderBonus, 1.25, 0]} castShadow>
-            <sphereGeometry args={[0.035 * muscleScale * genderMods.muscle, 12, 12]} />
-            <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.95)} roughness={0.5} />
-          </mesh>
-          <mesh position={[0.22 * shoulderScale * genderMods.shoulderBonus, 1.25, 0]} castShadow>
-            <sphereGeometry args={[0.035 * muscleScale * genderMods.muscle, 12, 12]} />
-            <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.95)} roughness={0.5} />
-          </mesh>
-        </>
-      )}
-
-      {/* Forearms */}
-      <mesh position={[-0.28 * shoulderScale * genderMods.shoulderBonus, 0.85, 0]} rotation={[0, 0, 0.25]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.035 * muscleScale, 0.22, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-      <mesh position={[0.28 * shoulderScale * genderMods.shoulderBonus, 0.85, 0]} rotation={[0, 0, -0.25]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.035 * muscleScale, 0.22, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-
-      {/* Hands */}
-      <mesh position={[-0.32 * shoulderScale * genderMods.shoulderBonus, 0.65, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[0.035, 12, 12]} />
-        <meshStandardMaterial color={skinColor} roughness={0.8} />
-      </mesh>
-      <mesh position={[0.32 * shoulderScale * genderMods.shoulderBonus, 0.65, 0]} castShadow receiveShadow>
-        <sphereGeometry args={[0.035, 12, 12]} />
-        <meshStandardMaterial color={skinColor} roughness={0.8} />
-      </mesh>
-
-      {/* Legs - More realistic with proper joints */}
-      {/* Thighs */}
-      <mesh position={[-0.11, 0.4, 0]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.06 * muscleScale, 0.35, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-      <mesh position={[0.11, 0.4, 0]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.06 * muscleScale, 0.35, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-
-      {/* Quadriceps definition */}
-      {settings.muscle > 45 && (
-        <>
-          <mesh position={[-0.11, 0.5, 0.05]} castShadow>
-            <sphereGeometry args={[0.04 * muscleScale, 12, 8, 0, Math.PI * 2, 0, Math.PI * 0.6]} />
-            <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.94)} roughness={0.5} />
-          </mesh>
-          <mesh position={[0.11, 0.5, 0.05]} castShadow>
-            <sphereGeometry args={[0.04 * muscleScale, 12, 8, 0, Math.PI * 2, 0, Math.PI * 0.6]} />
-            <meshStandardMaterial color={skinColor.clone().multiplyScalar(0.94)} roughness={0.5} />
-          </mesh>
-        </>
-      )}
-
-      {/* Calves */}
-      <mesh position={[-0.11, 0.05, -0.01]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.045 * muscleScale, 0.25, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-      <mesh position={[0.11, 0.05, -0.01]} castShadow receiveShadow>
-        <capsuleGeometry args={[0.045 * muscleScale, 0.25, 8, 16]} />
-        <meshStandardMaterial color={skinColor} roughness={0.7} />
-      </mesh>
-
-      {/* Feet */}
-      <mesh position={[-0.11, -0.15, 0.04]} castShadow receiveShadow>
-        <sphereGeometry args={[0.04, 12, 8, 0, Math.PI * 2, 0, Math.PI * 0.7]} />
-        <meshStandardMaterial color={skinColor} roughness={0.8} />
-      </mesh>
-      <mesh position={[0.11, -0.15, 0.04]} castShadow receiveShadow>
-        <sphereGeometry args={[0.04, 12, 8, 0, Math.PI * 2, 0, Math.PI * 0.7]} />
-        <meshStandardMaterial color={skinColor} roughness={0.8} />
-      </mesh>
-
-      {/* Height indicator */}
-      <Text
-        position={[0.4, 0, 0]}
-        fontSize={0.06}
-        color="#60A5FA"
-        anchorX="left"
-        anchorY="middle"
-      >
-        {(settings.height / 100).toFixed(2)}m
-      </Text>
-    </group>
+      {poseEditing && <PoseGizmo bones={rig.bones} onPoseChange={onPoseChange} />}
+    </>
   )
 }
 
@@ -522,10 +570,17 @@ class Avatar3DErrorBoundary extends React.Component<
   }
 }
 
-export default function ImprovedAvatar3D({ settings, lighting, customModelUrl }: ImprovedAvatar3DProps) {
+export default function ImprovedAvatar3D({ settings, lighting, customModelUrl, onCanvasReady, pose, poseEditing, onPoseChange, playback, motions, onClipsChange, onTimelineChange }: ImprovedAvatar3DProps) {
   const [webglSupported, setWebglSupported] = useState(true)
   const [renderError, setRenderError] = useState<string | null>(null)
   const [contextLost, setContextLost] = useState(false)
+  const readiness = useMemo(createAvatarReadiness, [])
+  const [loadedModelUrl, setLoadedModelUrl] = useState<string | null>(null)
+  const setRebuilding = useCallback((rebuilding: boolean) => readiness.setPending('body', rebuilding), [readiness])
+
+  useEffect(() => {
+    readiness.setPending('model', Boolean(customModelUrl) && customModelUrl !== loadedModelUrl)
+  }, [readiness, customModelUrl, loadedModelUrl])
 
   useEffect(() => {
     // Check WebGL support more thoroughly
@@ -594,7 +649,7 @@ export default function ImprovedAvatar3D({ settings, lighting, customModelUrl }:
             shadows
             camera={{ position: [0, 1.5, 3], fov: 50 }}
             className="bg-gradient-to-b from-slate-800 to-slate-900"
-            onCreated={({ gl }) => {
+            onCreated={({ gl, scene, camera }) => {
               try {
                 gl.setPixelRatio(Math.min(window.devicePixelRatio, 2))
                 gl.shadowMap.enabled = true
@@ -605,6 +660,8 @@ export default function ImprovedAvatar3D({ settings, lighting, customModelUrl }:
                   event.preventDefault()
                   setContextLost(true)
                 })
+
+                onCanvasReady?.({ gl, scene, camera, whenAvatarReady: readiness.wait })
               } catch (error) {
                 handleCanvasError(error)
               }
@@ -642,6 +699,7 @@ export default function ImprovedAvatar3D({ settings, lighting, customModelUrl }:
             {/* Environment and controls */}
             <Environment preset="studio" background={false} environmentIntensity={lighting.environmentIntensity} />
             <OrbitControls
+              makeDefault
               enablePan={true}
               enableZoom={true}
               enableRotate={true}
@@ -654,9 +712,20 @@ export default function ImprovedAvatar3D({ settings, lighting, customModelUrl }:
             
             {/* Avatar - Use custom GLB model if available, otherwise use improved avatar */}
             {customModelUrl ? (
-              <CustomGLBModel url={customModelUrl} settings={settings} />
+              <CustomGLBModel url={customModelUrl} settings={settings} onLoad={setLoadedModelUrl} playback={playback} motions={motions} onClipsChange={onClipsChange} onTimelineChange={onTimelineChange} />
             ) : (
-              <RealisticAvatarMesh settings={settings} lighting={lighting} />
+              <RealisticAvatarMesh
+                settings={settings}
+                lighting={lighting}
+                pose={pose}
+                poseEditing={poseEditing}
+                onPoseChange={onPoseChange}
+                playback={playback}
+                motions={motions}
+                onClipsChange={onClipsChange}
+                onTimelineChange={onTimelineChange}
+                onRebuildingChange={setRebuilding}
+              />
             )}
             
             {/* Enhanced ground shadow */}
@@ -667,10 +736,16 @@ export default function ImprovedAvatar3D({ settings, lighting, customModelUrl }:
               blur={2.5}
               far={3}
               color="#000000"
+              userData={{ exportIgnore: true }}
             />
             
             {/* Grid floor with better material */}
-            <mesh position={[0, -0.5, 0]} rotation={[-Math.PI / 2, 0, 0]} receiveShadow>
+            <mesh
+              position={[0, -0.5, 0]}
+              rotation={[-Math.PI / 2, 0, 0]}
+              receiveShadow
+              userData={{ exportIgnore: true }}
+            >
               <planeGeometry args={[12, 12]} />
               <meshStandardMaterial 
                 color="#1e293b" 
@@ -26,7 +26,8 @@ interface LightingControlsProps {
     environmentIntensity: number
     shadows: boolean
   }
-  onLightingChange: (lighting: any) => void
+  // `label` names the change in the undo history; omitted for slider tweaks
+  onLightingChange: (lighting: any, label?: string) => void
 }
 
 interface LightingPreset {
@@ -148,7 +149,7 @@ export default function LightingControls({ lighting, onLightingChange }: Lightin
   }
 
   const applyPreset = (preset: LightingPreset) => {
-    onLightingChange(preset.settings)
+    onLightingChange(preset.settings, `Applied lighting ${preset.name}`)
   }
 
   const resetToDefaults = () => {
@@ -158,7 +159,7 @@ export default function LightingControls({ lighting, onLightingChange }: Lightin
       directionalPosition: [2, 4, 2],
       environmentIntensity: 0.8,
       shadows: true
-    })
+    }, 'Reset lighting')
   }
 
   const getCategoryColor = (category: string) => {
@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { Input } from './ui/input'
+import { PersonStanding, Move3d, Save, Trash2, Loader2 } from 'lucide-react'
+import type { AvatarPose } from '../lib/avatar/poses'
+
+interface PoseLibraryProps {
+  // Built-in poses first, then the user's own
+  poses: AvatarPose[]
+  // null while the viewport shows an edited pose that hasn't been saved
+  activePoseId: string | null
+  isEditing: boolean
+  // Poses only drive the parametric body; imported models keep their own stance
+  available: boolean
+  canSave: boolean
+  onSelect: (pose: AvatarPose) => void
+  onEditingChange: (editing: boolean) => void
+  // Resolves true once the pose is stored
+  onSave: (name: string) => Promise<boolean>
+  onDelete: (pose: AvatarPose) => Promise<void>
+}
+
+export default function PoseLibrary({ poses, activePoseId, isEditing, available, canSave, onSelect, onEditingChange, onSave, onDelete }: PoseLibraryProps) {
+  const [poseName, setPoseName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    if (!poseName.trim()) return
+    setIsSaving(true)
+    try {
+      if (await onSave(poseName.trim())) {
+        setPoseName('')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (pose: AvatarPose) => {
+    setDeletingId(pose.id)
+    try {
+      await onDelete(pose)
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Card className="glass-panel border-slate-600 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold flex items-center">
+          <PersonStanding className="w-4 h-4 mr-2 text-blue-400" />
+          Pose
+        </h3>
+        <Button
+          size="sm"
+          variant={isEditing ? 'default' : 'outline'}
+          onClick={() => onEditingChange(!isEditing)}
+          disabled={!available}
+          className="h-7 px-2 text-xs border-slate-600"
+        >
+          <Move3d className="w-3 h-3 mr-1" />
+          {isEditing ? 'Done' : 'Edit Pose'}
+        </Button>
+      </div>
+
+      {!available ? (
+        <p className="text-xs text-slate-400">
+          Poses apply to the generated body. Remove the custom model to pose the avatar.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-1">
+            {poses.map((pose) => (
+              <div key={pose.id} className="flex items-center">
+                <Button
+                  size="sm"
+                  variant={pose.id === activePoseId ? 'default' : 'outline'}
+                  onClick={() => onSelect(pose)}
+                  className="flex-1 h-7 px-2 text-xs border-slate-600 truncate"
+                >
+                  {pose.name}
+                </Button>
+                {!pose.builtIn && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(pose)}
+                    disabled={deletingId !== null}
+                    title={`Delete ${pose.name}`}
+                    className="h-7 w-7 p-0 text-slate-400 hover:text-red-400"
+                  >
+                    {deletingId === pose.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isEditing && (
+            <p className="text-xs text-slate-400">
+              Click a joint marker to select a bone, then drag the rings to rotate it.
+            </p>
+          )}
+
+          {activePoseId === null && (
+            canSave ? (
+              <div className="flex space-x-2">
+                <Input
+                  value={poseName}
+                  onChange={(e) => setPoseName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                  placeholder="Name this pose"
+                  className="h-7 text-xs bg-slate-700 border-slate-600"
+                />
+                <Button
+                  size="sm"
+                  onClick={handleSave}
+                  disabled={isSaving || !poseName.trim()}
+                  className="h-7 px-2 text-xs bg-blue-600 hover:bg-blue-700"
+                >
+                  {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-400">Sign in to save this pose to your library.</p>
+            )
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -8,23 +8,10 @@ import { Loader2, Download, Sparkles, Zap, Users, User } from 'lucide-react'
 
 // Import the GLB Avatar Viewer
 import GLBAvatarViewer from './GLBAvatarViewer'
+import type { AvatarSettings } from '../lib/avatar/settings'
 
 interface ReadyPlayerMeAvatarProps {
-  settings: {
-    gender: 'male' | 'female' | 'non-binary'
-    height: number
-    muscle: number
-    bodyFat: number
-    shoulderWidth: number
-    waistSize: number
-    skinTone: number
-    facialStructure: number
-    eyeSize: number
-    noseSize: number
-    mouthSize: number
-    hairStyle: number
-    hairColor: number
-  }
+  settings: AvatarSettings
   lighting: {
     ambientIntensity: number
     directionalIntensity: number
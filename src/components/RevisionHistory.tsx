@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { History, RotateCcw, Loader2, GitCompare } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { listRevisions, type AvatarRevision } from '../lib/avatar/revisions'
+import { diffAvatarSettings } from '../lib/avatar/settings'
+
+interface RevisionHistoryProps {
+  avatarId: string
+  // Bump to refetch after the avatar is saved again
+  reloadToken: number
+  onRestore: (revision: AvatarRevision) => Promise<void>
+}
+
+// Weekday first, so "the one from Tuesday" is easy to spot
+const formatRevisionDate = (date: string) =>
+  new Date(date).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+export default function RevisionHistory({ avatarId, reloadToken, onRestore }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<AvatarRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Revision the selection is compared against; defaults to the one saved just before it
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      try {
+        const result = await listRevisions(avatarId)
+        if (cancelled) return
+        setRevisions(result)
+        setSelectedId(result[0]?.id ?? null)
+        setBaseId(null)
+      } catch (error) {
+        console.error('Error loading revisions:', error)
+        toast.error('Failed to load revision history')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [avatarId, reloadToken])
+
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId)
+  const selected = revisions[selectedIndex]
+  const base = revisions.find(revision => revision.id === baseId) ?? revisions[selectedIndex + 1]
+  const changes = selected && base ? diffAvatarSettings(base.settings, selected.settings) : []
+
+  const handleRestore = async (revision: AvatarRevision) => {
+    setRestoringId(revision.id)
+    try {
+      await onRestore(revision)
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  if (isLoading && revisions.length === 0) {
+    return (
+      <div className="flex justify-center py-8 text-slate-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    )
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-400">
+        <History className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p>No revisions yet</p>
+        <p className="text-xs mt-1">Every save from now on is kept as a revision</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Timeline */}
+      <div className="space-y-1 max-h-96 overflow-y-auto">
+        {revisions.map((revision, index) => (
+          <div
+            key={revision.id}
+            onClick={() => {
+              setSelectedId(revision.id)
+              setBaseId(null)
+            }}
+            className={`p-2 rounded cursor-pointer text-xs transition-colors ${
+              revision.id === selectedId
+                ? 'bg-blue-600/30 border border-blue-500/50'
+                : revision.id === base?.id
+                  ? 'bg-slate-700 border border-slate-500'
+                  : 'bg-slate-700/50 border border-transparent hover:bg-slate-700'
+            }`}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-slate-200">#{revision.revision}</span>
+                {index === 0 && <Badge className="bg-green-500/20 border-green-500 text-green-400 text-[10px]">Current</Badge>}
+                {revision.restoredFrom !== null && (
+                  <Badge variant="outline" className="border-slate-500 text-slate-400 text-[10px]">
+                    Restored #{revision.restoredFrom}
+                  </Badge>
+                )}
+              </div>
+              {revision.id !== selectedId && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setBaseId(revision.id)
+                  }}
+                  title="Compare the selected revision with this one"
+                  className="h-5 px-1 text-slate-400"
+                >
+                  <GitCompare className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+            <div className="text-slate-400 mt-0.5">
+              {formatRevisionDate(revision.createdAt)} · {revision.name}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Diff of the selected revision */}
+      {selected && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-slate-200">
+              {base ? `#${base.revision} → #${selected.revision}` : `#${selected.revision}`}
+            </h4>
+            {selectedIndex > 0 && (
+              <Button
+                size="sm"
+                onClick={() => handleRestore(selected)}
+                disabled={restoringId !== null}
+                className="h-7 text-xs"
+              >
+                {restoringId === selected.id ? (
+                  <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                )}
+                Restore
+              </Button>
+            )}
+          </div>
+
+          {!base ? (
+            <p className="text-xs text-slate-400">First revision of this avatar.</p>
+          ) : changes.length === 0 && base.name === selected.name ? (
+            <p className="text-xs text-slate-400">No differences.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <tbody>
+                {base.name !== selected.name && (
+                  <tr className="border-b border-slate-700">
+                    <td className="py-1 pr-2 text-slate-300">Name</td>
+                    <td className="py-1 pr-2 text-red-300">{base.name}</td>
+                    <td className="py-1 text-green-300">{selected.name}</td>
+                  </tr>
+                )}
+                {changes.map((change) => (
+                  <tr key={change.field} className="border-b border-slate-700">
+                    <td className="py-1 pr-2 text-slate-300">{change.label}</td>
+                    <td className="py-1 pr-2 text-red-300">{change.from}</td>
+                    <td className="py-1 text-green-300">{change.to}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { Button } from './ui/button'
+import { Card } from './ui/card'
+import { Badge } from './ui/badge'
+import { Eye, User } from 'lucide-react'
+import ImprovedAvatar3D from './ImprovedAvatar3D'
+import { SETTING_LABELS, type NumericSettingKey } from '../lib/avatar/settings'
+import type { SharedAvatar } from '../lib/avatar/share'
+
+interface SharedAvatarPreviewProps {
+  shared: SharedAvatar
+  onSignIn: () => void
+}
+
+const SUMMARY_FIELDS: NumericSettingKey[] = ['muscle', 'bodyFat', 'shoulderWidth', 'skinTone', 'hairStyle', 'hairColor']
+
+// Read-only view of a share link for visitors who haven't signed in yet
+export default function SharedAvatarPreview({ shared, onSignIn }: SharedAvatarPreviewProps) {
+  const { avatar, lighting } = shared
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-slate-100">
+      <header className="border-b border-slate-700 bg-slate-900/50 backdrop-blur-sm">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-orange-500 rounded-lg flex items-center justify-center">
+              <User className="w-5 h-5 text-white" />
+            </div>
+            <h1 className="text-2xl font-bold gradient-text">HD Avatar Creator</h1>
+            <Badge variant="outline" className="border-blue-500 text-blue-400">
+              <Eye className="w-3 h-3 mr-1" />
+              Read-only preview
+            </Badge>
+          </div>
+          <Button onClick={onSignIn} className="bg-blue-600 hover:bg-blue-700">
+            <User className="w-4 h-4 mr-2" />
+            Sign in to edit
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-6 py-6 grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-80px)]">
+        <div className="lg:col-span-2">
+          <Card className="h-full glass-panel border-slate-600">
+            <div className="relative h-full avatar-viewport rounded-lg overflow-hidden">
+              <ImprovedAvatar3D settings={avatar} lighting={lighting} />
+            </div>
+          </Card>
+        </div>
+
+        <Card className="glass-panel border-slate-600 p-4 h-fit space-y-4">
+          <div>
+            <h3 className="font-semibold mb-1">Shared Avatar</h3>
+            <p className="text-xs text-slate-400">
+              Someone shared this configuration with you. Sign in to open it in the editor and make it your own.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="text-slate-400">{SETTING_LABELS.gender}</div>
+            <div className="text-slate-200 capitalize">{avatar.gender}</div>
+            <div className="text-slate-400">{SETTING_LABELS.height}</div>
+            <div className="text-slate-200">{(avatar.height / 100).toFixed(2)}m</div>
+            {SUMMARY_FIELDS.map((key) => (
+              <div key={key} className="contents">
+                <div className="text-slate-400">{SETTING_LABELS[key]}</div>
+                <div className="text-slate-200">{key === 'hairStyle' ? `Style ${avatar[key]}` : `${avatar[key]}%`}</div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover'
+import { Cloud, CloudOff, CheckCircle, AlertTriangle, Loader2, RefreshCw } from 'lucide-react'
+import type { SyncStatus } from '../hooks/use-avatar-sync'
+import type { LocalAvatarEntry } from '../lib/avatar/local-store'
+import { parseAvatarSettings, diffAvatarSettings } from '../lib/avatar/settings'
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus
+  pendingCount: number
+  conflicts: LocalAvatarEntry[]
+  lastSyncedAt: number | null
+  onSyncNow: () => void
+  onResolve: (id: string, keep: 'local' | 'remote') => Promise<void>
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+
+export default function SyncStatusIndicator({ status, pendingCount, conflicts, lastSyncedAt, onSyncNow, onResolve }: SyncStatusIndicatorProps) {
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+
+  const handleResolve = async (id: string, keep: 'local' | 'remote') => {
+    setResolvingId(id)
+    try {
+      await onResolve(id, keep)
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  // Conflicts need attention first, then anything not yet on the server
+  const badge = conflicts.length > 0
+    ? { icon: <AlertTriangle className="w-4 h-4 mr-1" />, label: `${conflicts.length} conflict${conflicts.length !== 1 ? 's' : ''}`, className: 'border-amber-500 text-amber-400' }
+    : status === 'syncing'
+      ? { icon: <Loader2 className="w-4 h-4 mr-1 animate-spin" />, label: 'Syncing', className: 'border-blue-500 text-blue-400' }
+      : status === 'offline'
+        ? { icon: <CloudOff className="w-4 h-4 mr-1" />, label: pendingCount > 0 ? `Offline · ${pendingCount} pending` : 'Offline', className: 'border-slate-500 text-slate-400' }
+        : status === 'error'
+          ? { icon: <CloudOff className="w-4 h-4 mr-1" />, label: 'Sync failed', className: 'border-red-500 text-red-400' }
+          : pendingCount > 0
+            ? { icon: <Cloud className="w-4 h-4 mr-1" />, label: `${pendingCount} pending`, className: 'border-blue-500 text-blue-400' }
+            : { icon: <CheckCircle className="w-4 h-4 mr-1" />, label: 'Synced', className: 'border-green-500 text-green-400' }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={badge.className}>
+          {badge.icon}
+          <span className="hidden md:inline">{badge.label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-slate-800 border-slate-600 text-slate-100 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium">Sync</h4>
+            <p className="text-xs text-slate-400">
+              {lastSyncedAt ? `Last synced at ${formatTime(lastSyncedAt)}` : 'Not synced yet'}
+              {pendingCount > 0 && ` · ${pendingCount} save${pendingCount !== 1 ? 's' : ''} waiting to upload`}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={onSyncNow} disabled={status === 'syncing'} className="h-7 border-slate-600">
+            <RefreshCw className={`w-3 h-3 ${status === 'syncing' ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        {status === 'offline' && (
+          <p className="text-xs text-slate-400">
+            Saves are kept on this device and uploaded when the connection is back.
+          </p>
+        )}
+
+        {conflicts.map((entry) => {
+          const remote = entry.conflict
+          if (!remote) return null
+          const changes = diffAvatarSettings(
+            parseAvatarSettings(remote.settings).settings,
+            parseAvatarSettings(entry.record.settings).settings
+          )
+          return (
+            <div key={entry.id} className="p-2 bg-amber-500/10 border border-amber-500/30 rounded text-xs space-y-2">
+              <div>
+                <div className="text-amber-400 font-medium">{entry.record.name}</div>
+                <div className="text-slate-400">
+                  Changed on another device{remote.updated_at ? ` at ${formatTime(new Date(remote.updated_at).getTime())}` : ''}.{' '}
+                  {changes.length > 0
+                    ? `This device differs in ${changes.map(change => change.label).join(', ')}.`
+                    : 'Settings are the same on both.'}
+                </div>
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleResolve(entry.id, 'local')}
+                  disabled={resolvingId !== null}
+                  className="flex-1 h-6 text-xs"
+                >
+                  Keep this device
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleResolve(entry.id, 'remote')}
+                  disabled={resolvingId !== null}
+                  className="flex-1 h-6 text-xs border-slate-600"
+                >
+                  Use other device
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -13,6 +13,7 @@ import {
   Eye,
   Loader2
 } from 'lucide-react'
+import type { TextureParams } from '../lib/avatar/definition'
 
 interface TextureEnhancerProps {
   settings: {
@@ -21,16 +22,16 @@ interface TextureEnhancerProps {
     skinTone: number
     gender: 'male' | 'female' | 'non-binary'
   }
+  params: TextureParams
+  onParamsChange: (params: TextureParams) => void
   onTextureGenerated: (textureUrl: string) => void
 }
 
-export default function TextureEnhancer({ settings, onTextureGenerated }: TextureEnhancerProps) {
+export default function TextureEnhancer({ settings, params, onParamsChange, onTextureGenerated }: TextureEnhancerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [isGenerating, setIsGenerating] = useState(false)
-  const [textureQuality, setTextureQuality] = useState(1024)
-  const [muscleIntensity, setMuscleIntensity] = useState(50)
-  const [skinDetail, setSkinDetail] = useState(70)
-  const [vascularization, setVascularization] = useState(30)
+  // Owned by the editor so the values travel with exported avatar definitions
+  const { quality: textureQuality, muscleIntensity, skinDetail, vascularization } = params
   const [generatedTexture, setGeneratedTexture] = useState<string | null>(null)
 
   // Generate procedural muscle and skin texture
@@ -227,7 +228,7 @@ export default function TextureEnhancer({ settings, onTextureGenerated }: Textur
                 key={quality}
                 variant={textureQuality === quality ? "default" : "outline"}
                 size="sm"
-                onClick={() => setTextureQuality(quality)}
+                onClick={() => onParamsChange({ ...params, quality })}
                 className="text-xs"
               >
                 {quality}px
@@ -242,7 +243,7 @@ export default function TextureEnhancer({ settings, onTextureGenerated }: Textur
             <Label>Muscle Intensity: {muscleIntensity}%</Label>
             <Slider
               value={[muscleIntensity]}
-              onValueChange={(value) => setMuscleIntensity(value[0])}
+              onValueChange={(value) => onParamsChange({ ...params, muscleIntensity: value[0] })}
               min={0}
               max={100}
               step={1}
@@ -254,7 +255,7 @@ export default function TextureEnhancer({ settings, onTextureGenerated }: Textur
             <Label>Skin Detail: {skinDetail}%</Label>
             <Slider
               value={[skinDetail]}
-              onValueChange={(value) => setSkinDetail(value[0])}
+              onValueChange={(value) => onParamsChange({ ...params, skinDetail: value[0] })}
               min={0}
               max={100}
               step={1}
@@ -267,7 +268,7 @@ export default function TextureEnhancer({ settings, onTextureGenerated }: Textur
               <Label>Vascularization: {vascularization}%</Label>
               <Slider
                 value={[vascularization]}
-                onValueChange={(value) => setVascularization(value[0])}
+                onValueChange={(value) => onParamsChange({ ...params, vascularization: value[0] })}
                 min={0}
                 max={100}
                 step={1}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Trash2, RotateCcw, Loader2, User } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { TRASH_RETENTION_DAYS, daysLeftInTrash, listTrash, purgeAvatar } from '../lib/avatar/trash'
+import type { SavedAvatar } from '../lib/avatar/library'
+
+interface TrashBinProps {
+  userId?: string | null
+  // Bump to refetch after avatars are deleted or restored elsewhere
+  reloadToken: number
+  onRestore: (avatars: SavedAvatar[]) => Promise<void>
+  // Restoring and purging need the server; the list stays as last loaded
+  offline?: boolean
+}
+
+export default function TrashBin({ userId, reloadToken, onRestore, offline = false }: TrashBinProps) {
+  const [avatars, setAvatars] = useState<SavedAvatar[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  // Permanent deletion takes a second click on the same button
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+  const [purgeToken, setPurgeToken] = useState(0)
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    const load = async () => {
+      setIsLoading(true)
+      try {
+        const result = await listTrash(userId)
+        if (!cancelled) setAvatars(result)
+      } catch (error) {
+        console.error('Error loading trash:', error)
+        toast.error('Failed to load the trash')
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, reloadToken, purgeToken])
+
+  const handleRestore = async (avatar: SavedAvatar) => {
+    setBusyId(avatar.id)
+    try {
+      await onRestore([avatar])
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (targets: SavedAvatar[], confirmId: string) => {
+    if (!userId) return
+    if (confirmingId !== confirmId) {
+      setConfirmingId(confirmId)
+      return
+    }
+
+    setConfirmingId(null)
+    setBusyId(confirmId)
+    try {
+      for (const avatar of targets) {
+        await purgeAvatar(userId, avatar)
+      }
+      toast.success(targets.length === 1 ? `Deleted "${targets[0].name}" permanently` : `Deleted ${targets.length} avatars permanently`)
+    } catch (error) {
+      console.error('Error purging avatars:', error)
+      toast.error('Failed to delete permanently')
+    } finally {
+      setBusyId(null)
+      setPurgeToken(token => token + 1)
+    }
+  }
+
+  if (isLoading && avatars.length === 0) {
+    return (
+      <div className="flex justify-center py-8 text-slate-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+      </div>
+    )
+  }
+
+  if (avatars.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-400">
+        <Trash2 className="w-12 h-12 mx-auto mb-2 opacity-50" />
+        <p>Trash is empty</p>
+        <p className="text-xs mt-1">Deleted avatars stay here for {TRASH_RETENTION_DAYS} days</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-slate-400">
+          Avatars are deleted permanently {TRASH_RETENTION_DAYS} days after they were moved here, along with their revisions and exports.
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handlePurge(avatars, 'all')}
+          disabled={busyId !== null || offline}
+          className="h-7 text-xs border-red-500/50 text-red-400 flex-shrink-0 ml-2"
+        >
+          {busyId === 'all' ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Trash2 className="w-3 h-3 mr-1" />}
+          {confirmingId === 'all' ? 'Confirm' : 'Empty trash'}
+        </Button>
+      </div>
+
+      <div className="space-y-2 max-h-[28rem] overflow-y-auto">
+        {avatars.map((avatar) => {
+          const daysLeft = avatar.deletedAt ? daysLeftInTrash(avatar.deletedAt) : TRASH_RETENTION_DAYS
+          return (
+            <div key={avatar.id} className="bg-slate-700 rounded-lg p-2 flex items-center space-x-3">
+              {avatar.thumbnailUrl ? (
+                <img src={avatar.thumbnailUrl} alt={avatar.name} loading="lazy" className="w-12 h-12 rounded object-cover bg-slate-800 opacity-60" />
+              ) : (
+                <div className="w-12 h-12 rounded bg-slate-800 flex items-center justify-center">
+                  <User className="w-4 h-4 text-slate-600" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <h4 className="font-medium text-slate-300 text-sm truncate">{avatar.name}</h4>
+                <Badge variant="outline" className={`text-[10px] ${daysLeft <= 3 ? 'border-red-500/50 text-red-400' : 'border-slate-500 text-slate-400'}`}>
+                  {daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+                </Badge>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRestore(avatar)}
+                disabled={busyId !== null || offline}
+                className="h-7 text-xs border-slate-600"
+              >
+                {busyId === avatar.id ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <RotateCcw className="w-3 h-3 mr-1" />}
+                Restore
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handlePurge([avatar], avatar.id)}
+                disabled={busyId !== null || offline}
+                className="h-7 text-xs text-red-400 hover:text-red-300"
+              >
+                {confirmingId === avatar.id ? 'Confirm' : 'Delete forever'}
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import * as React from "react"
+import type { AvatarRecord } from "../lib/avatar/library"
+import type { RecordRevisionOptions } from "../lib/avatar/revisions"
+import { getLocalAvatar, listLocalAvatars, type LocalAvatarEntry } from "../lib/avatar/local-store"
+import {
+  isOfflineError,
+  resolveConflict,
+  saveAvatarLocally,
+  syncAvatars,
+  type SyncResult,
+} from "../lib/avatar/sync"
+
+export type SyncStatus = "idle" | "syncing" | "synced" | "offline" | "error"
+
+// Where a save ended up: on the server, only on this device, or held back by a conflict
+export type SaveOutcome = "synced" | "pending" | "conflict"
+
+// Background sync while the editor is open; saves and reconnects sync right away
+const SYNC_INTERVAL_MS = 30_000
+
+/**
+ * Keeps the IndexedDB copy of a user's avatars in step with the backend. Syncs run
+ * one after another, so a save made during a sync is pushed by the next one.
+ * `onSynced` fires after every attempt, successful or not, with what changed.
+ */
+export function useAvatarSync(userId: string | null | undefined, onSynced?: (result: SyncResult | null) => void) {
+  const [status, setStatus] = React.useState<SyncStatus>("idle")
+  const [pendingCount, setPendingCount] = React.useState(0)
+  const [conflicts, setConflicts] = React.useState<LocalAvatarEntry[]>([])
+  const [lastSyncedAt, setLastSyncedAt] = React.useState<number | null>(null)
+  const queue = React.useRef<Promise<unknown>>(Promise.resolve())
+  const onSyncedRef = React.useRef(onSynced)
+
+  React.useEffect(() => {
+    onSyncedRef.current = onSynced
+  }, [onSynced])
+
+  const refreshLocalState = React.useCallback(async () => {
+    if (!userId) return
+    const entries = await listLocalAvatars(userId)
+    setPendingCount(entries.filter(entry => entry.dirty && !entry.conflict).length)
+    setConflicts(entries.filter(entry => entry.conflict))
+  }, [userId])
+
+  // Resolves true when the backend was reached and everything pushable was pushed
+  const sync = React.useCallback((): Promise<boolean> => {
+    const run = async () => {
+      if (!userId) return false
+      setStatus("syncing")
+      let result: SyncResult | null = null
+      try {
+        result = await syncAvatars(userId)
+        setStatus("synced")
+        setLastSyncedAt(Date.now())
+      } catch (error) {
+        console.error("Avatar sync failed:", error)
+        setStatus(isOfflineError(error) ? "offline" : "error")
+      }
+      await refreshLocalState().catch(error => console.error("Error reading local avatars:", error))
+      onSyncedRef.current?.(result)
+      return result !== null
+    }
+
+    const next = queue.current.then(run, run)
+    queue.current = next
+    return next
+  }, [userId, refreshLocalState])
+
+  // Stores the save and its revision locally, then tries to push both straight away
+  const save = React.useCallback(async (record: AvatarRecord, revision?: RecordRevisionOptions): Promise<SaveOutcome> => {
+    if (!userId) return "pending"
+    await saveAvatarLocally(userId, record, revision)
+    await refreshLocalState()
+    await sync()
+    const entry = await getLocalAvatar(record.id)
+    if (entry?.conflict) return "conflict"
+    return entry?.dirty ? "pending" : "synced"
+  }, [userId, refreshLocalState, sync])
+
+  const resolve = React.useCallback(async (id: string, keep: "local" | "remote") => {
+    await resolveConflict(id, keep)
+    await sync()
+  }, [sync])
+
+  React.useEffect(() => {
+    if (!userId) return
+    sync()
+
+    const goOffline = () => setStatus("offline")
+    window.addEventListener("online", sync)
+    window.addEventListener("offline", goOffline)
+    const timer = setInterval(() => {
+      if (navigator.onLine) sync()
+    }, SYNC_INTERVAL_MS)
+
+    return () => {
+      window.removeEventListener("online", sync)
+      window.removeEventListener("offline", goOffline)
+      clearInterval(timer)
+    }
+  }, [userId, sync])
+
+  return { status, pendingCount, conflicts, lastSyncedAt, sync, save, resolve }
+}
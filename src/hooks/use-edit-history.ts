@@ -0,0 +1,116 @@
+import * as React from "react"
+
+export interface HistoryStep<T> {
+  id: number
+  label: string
+  state: T
+  // Consecutive commits with the same key merge into this step until it is sealed
+  coalesceKey?: string
+  sealed: boolean
+  at: number
+}
+
+interface HistoryState<T> {
+  steps: HistoryStep<T>[]
+  index: number
+}
+
+type HistoryAction<T> =
+  | { type: "commit"; label: string; update: (state: T) => T; coalesceKey?: string; at: number }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "jump"; index: number }
+  | { type: "seal" }
+
+const HISTORY_LIMIT = 100
+// A pause this long ends a coalesced step even without an explicit seal
+const COALESCE_WINDOW_MS = 1000
+
+let count = 0
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER
+  return count
+}
+
+function reducer<T>(history: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case "commit": {
+      const current = history.steps[history.index]
+      const state = action.update(current.state)
+      if (state === current.state) return history
+
+      const coalesce =
+        action.coalesceKey !== undefined &&
+        current.coalesceKey === action.coalesceKey &&
+        !current.sealed &&
+        action.at - current.at < COALESCE_WINDOW_MS &&
+        // Only at the tip, and never into the initial state
+        history.index > 0 &&
+        history.index === history.steps.length - 1
+
+      // Anything after the current step is a redo branch that this edit abandons
+      const kept = history.steps.slice(0, coalesce ? history.index : history.index + 1)
+      const step: HistoryStep<T> = {
+        id: coalesce ? current.id : genId(),
+        label: coalesce ? current.label : action.label,
+        state,
+        coalesceKey: action.coalesceKey,
+        sealed: false,
+        at: action.at,
+      }
+      const steps = [...kept, step].slice(-HISTORY_LIMIT)
+      return { steps, index: steps.length - 1 }
+    }
+    case "undo":
+      return history.index > 0 ? { ...history, index: history.index - 1 } : history
+    case "redo":
+      return history.index < history.steps.length - 1 ? { ...history, index: history.index + 1 } : history
+    case "jump":
+      return action.index >= 0 && action.index < history.steps.length ? { ...history, index: action.index } : history
+    case "seal": {
+      const current = history.steps[history.index]
+      if (current.sealed) return history
+      const steps = [...history.steps]
+      steps[history.index] = { ...current, sealed: true }
+      return { ...history, steps }
+    }
+  }
+}
+
+/**
+ * Linear undo/redo over a single state value. Every change goes through `commit`
+ * with a label for the history panel; commits sharing a `coalesceKey` (one slider
+ * drag) merge into one step until `seal` is called or the user pauses.
+ */
+export function useEditHistory<T>(initial: T, initialLabel = "Opened editor") {
+  const [history, dispatch] = React.useReducer(
+    reducer<T>,
+    undefined,
+    (): HistoryState<T> => ({
+      steps: [{ id: genId(), label: initialLabel, state: initial, sealed: true, at: 0 }],
+      index: 0,
+    })
+  )
+
+  const commit = React.useCallback((label: string, update: (state: T) => T, coalesceKey?: string) => {
+    dispatch({ type: "commit", label, update, coalesceKey, at: Date.now() })
+  }, [])
+  const undo = React.useCallback(() => dispatch({ type: "undo" }), [])
+  const redo = React.useCallback(() => dispatch({ type: "redo" }), [])
+  const jumpTo = React.useCallback((index: number) => dispatch({ type: "jump", index }), [])
+  const seal = React.useCallback(() => dispatch({ type: "seal" }), [])
+
+  return {
+    present: history.steps[history.index].state,
+    steps: history.steps,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.steps.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    seal,
+  }
+}
@@ -0,0 +1,151 @@
+import * as React from "react"
+
+export type ExportJobStatus = "pending" | "running" | "done" | "failed" | "cancelled"
+
+export interface ExportJobResult {
+  fileName: string
+  blob: Blob
+}
+
+export interface ExportJob<T> {
+  id: string
+  label: string
+  payload: T
+  status: ExportJobStatus
+  progress: number
+  stage: string
+  error?: string
+  result?: ExportJobResult
+}
+
+export type RunExportJob<T> = (
+  payload: T,
+  report: (progress: number, stage?: string) => void,
+  signal: AbortSignal
+) => Promise<ExportJobResult>
+
+let count = 0
+
+function genId() {
+  count = (count + 1) % Number.MAX_SAFE_INTEGER
+  return `job_${Date.now()}_${count}`
+}
+
+/**
+ * Runs export jobs one at a time (they all share the one viewport renderer).
+ * Cancelling a running job aborts its signal and discards whatever it produces;
+ * failed and cancelled jobs can be put back in the queue with `retry`.
+ */
+export function useExportQueue<T>(runJob: RunExportJob<T>, onIdle?: () => void) {
+  // The worker loop reads the latest jobs between awaits, so they live in a ref
+  const jobsRef = React.useRef<ExportJob<T>[]>([])
+  const controllers = React.useRef(new Map<string, AbortController>())
+  const running = React.useRef(false)
+  const [, setVersion] = React.useState(0)
+
+  const runJobRef = React.useRef(runJob)
+  const onIdleRef = React.useRef(onIdle)
+  runJobRef.current = runJob
+  onIdleRef.current = onIdle
+
+  const commit = (jobs: ExportJob<T>[]) => {
+    jobsRef.current = jobs
+    setVersion((version) => version + 1)
+  }
+
+  const update = (id: string, patch: Partial<ExportJob<T>>) => {
+    commit(jobsRef.current.map((job) => (job.id === id ? { ...job, ...patch } : job)))
+  }
+
+  const start = async () => {
+    if (running.current) return
+    running.current = true
+    setVersion((version) => version + 1)
+
+    try {
+      let job: ExportJob<T> | undefined
+      while ((job = jobsRef.current.find((candidate) => candidate.status === "pending"))) {
+        const { id } = job
+        const controller = new AbortController()
+        controllers.current.set(id, controller)
+        update(id, { status: "running", progress: 0, stage: "", error: undefined, result: undefined })
+
+        try {
+          const result = await runJobRef.current(
+            job.payload,
+            (progress, stage) => {
+              if (controller.signal.aborted) return
+              update(id, stage ? { progress, stage } : { progress })
+            },
+            controller.signal
+          )
+          update(id, controller.signal.aborted ? { status: "cancelled" } : { status: "done", progress: 100, result })
+        } catch (error) {
+          update(id, controller.signal.aborted
+            ? { status: "cancelled" }
+            : { status: "failed", error: error instanceof Error ? error.message : String(error) })
+        } finally {
+          controllers.current.delete(id)
+        }
+      }
+    } finally {
+      running.current = false
+      setVersion((version) => version + 1)
+      onIdleRef.current?.()
+    }
+  }
+
+  const enqueue = (items: { label: string; payload: T }[]) => {
+    commit([
+      ...jobsRef.current,
+      ...items.map(({ label, payload }) => ({
+        id: genId(),
+        label,
+        payload,
+        status: "pending" as const,
+        progress: 0,
+        stage: ""
+      }))
+    ])
+    void start()
+  }
+
+  const cancel = (id: string) => {
+    const job = jobsRef.current.find((candidate) => candidate.id === id)
+    if (!job) return
+    if (job.status === "running") {
+      controllers.current.get(id)?.abort()
+      update(id, { status: "cancelled", stage: "Cancelling..." })
+    } else if (job.status === "pending") {
+      update(id, { status: "cancelled" })
+    }
+  }
+
+  const cancelAll = () => {
+    jobsRef.current
+      .filter((job) => job.status === "pending" || job.status === "running")
+      .forEach((job) => cancel(job.id))
+  }
+
+  const retry = (id: string) => {
+    // A cancelled job may still be winding down; its late result would clobber the retry
+    if (controllers.current.has(id)) return
+    update(id, { status: "pending", progress: 0, stage: "", error: undefined })
+    void start()
+  }
+
+  // Drop finished jobs; anything queued or running stays
+  const clear = () => {
+    commit(jobsRef.current.filter((job) => job.status === "pending" || job.status === "running"))
+  }
+
+  return {
+    jobs: jobsRef.current,
+    isRunning: running.current,
+    enqueue,
+    cancel,
+    cancelAll,
+    retry,
+    clear
+  }
+}
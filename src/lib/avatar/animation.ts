@@ -0,0 +1,146 @@
+import * as THREE from 'three'
+import type { BodyBoneName } from './body'
+
+export interface AnimationPlayback {
+  // Clip to play; null stops playback and hands the bones back to the pose
+  clip: string | null
+  playing: boolean
+  speed: number
+  loop: boolean
+  // Seconds spent blending from the previous clip into a newly picked one
+  crossFade: number
+}
+
+export const DEFAULT_ANIMATION_PLAYBACK: AnimationPlayback = {
+  clip: null,
+  playing: true,
+  speed: 1,
+  loop: true,
+  crossFade: 0.3
+}
+
+export interface AnimationClipInfo {
+  name: string
+  duration: number
+}
+
+// Live handle on the playing clip, read every frame by the scrub bar without re-rendering the app
+export interface AnimationTimeline {
+  clip: string
+  duration: number
+  getTime: () => number
+  seek: (time: number) => void
+}
+
+export function describeClips(clips: THREE.AnimationClip[]): AnimationClipInfo[] {
+  return clips.map((clip) => ({ name: clip.name, duration: clip.duration }))
+}
+
+// Joint angles in degrees (XYZ Euler order, as in poses.ts) at a point 0–1 through the cycle
+type BoneMotion = Partial<Record<BodyBoneName, (t: number) => [number, number, number]>>
+
+interface Cycle {
+  name: string
+  duration: number
+  motion: BoneMotion
+  // Metres the hips rise above (or dip below) their rest height through the cycle
+  bob: (t: number) => number
+}
+
+const SAMPLES_PER_CYCLE = 24
+
+const wave = (t: number, offset = 0) => Math.sin((t + offset) * Math.PI * 2)
+
+// Arms hang by the sides instead of the rest pose's 45°, as in the relaxed pose
+const ARM_DOWN = 38
+
+const CYCLES: Cycle[] = [
+  {
+    name: 'Idle',
+    duration: 4,
+    bob: (t) => -0.003 * (1 - Math.cos(t * Math.PI * 2)) / 2,
+    motion: {
+      hips: (t) => [0, 0, 1.2 * wave(t)],
+      spine: (t) => [0, 0, -0.8 * wave(t)],
+      chest: (t) => [1.5 * wave(t, 0.25), 0, 0],
+      upperChest: (t) => [1 * wave(t, 0.25), 0, 0],
+      neck: () => [4, 0, 0],
+      head: (t) => [0, 4 * wave(t, 0.1), -0.5 * wave(t)],
+      leftUpperArm: (t) => [1.5 * wave(t, 0.25), 0, -ARM_DOWN + wave(t)],
+      leftLowerArm: () => [0, -12, 4],
+      rightUpperArm: (t) => [1.5 * wave(t, 0.25), 0, ARM_DOWN - wave(t)],
+      rightLowerArm: () => [0, 12, -4]
+    }
+  },
+  {
+    name: 'Walk',
+    duration: 1.1,
+    bob: (t) => 0.012 * Math.cos(t * Math.PI * 4),
+    motion: {
+      hips: (t) => [0, -5 * wave(t), 2 * wave(t, 0.25)],
+      spine: (t) => [2, 3 * wave(t), 0],
+      chest: (t) => [0, 3 * wave(t), -1 * wave(t, 0.25)],
+      head: (t) => [0, 2 * wave(t), 0],
+      leftUpperArm: (t) => [18 * wave(t), 0, -ARM_DOWN],
+      leftLowerArm: (t) => [-10 - 8 * Math.max(0, -wave(t)), 0, 0],
+      rightUpperArm: (t) => [-18 * wave(t), 0, ARM_DOWN],
+      rightLowerArm: (t) => [-10 - 8 * Math.max(0, wave(t)), 0, 0],
+      leftUpperLeg: (t) => [-22 * wave(t), 0, 0],
+      leftLowerLeg: (t) => [5 + 40 * Math.max(0, wave(t, 0.4)), 0, 0],
+      leftFoot: (t) => [-8 * wave(t, 0.1), 0, 0],
+      rightUpperLeg: (t) => [22 * wave(t), 0, 0],
+      rightLowerLeg: (t) => [5 + 40 * Math.max(0, wave(t, 0.9)), 0, 0],
+      rightFoot: (t) => [8 * wave(t, 0.1), 0, 0]
+    }
+  },
+  {
+    name: 'Run',
+    duration: 0.7,
+    bob: (t) => 0.03 * Math.cos(t * Math.PI * 4) - 0.02,
+    motion: {
+      hips: (t) => [0, -8 * wave(t), 0],
+      spine: (t) => [8, 5 * wave(t), 0],
+      chest: (t) => [4, 5 * wave(t), 0],
+      neck: () => [-8, 0, 0],
+      head: () => [-4, 0, 0],
+      leftUpperArm: (t) => [40 * wave(t), 0, -ARM_DOWN - 8],
+      leftLowerArm: (t) => [-70 - 15 * wave(t), 0, 0],
+      rightUpperArm: (t) => [-40 * wave(t), 0, ARM_DOWN + 8],
+      rightLowerArm: (t) => [-70 + 15 * wave(t), 0, 0],
+      leftUpperLeg: (t) => [-10 - 38 * wave(t), 0, 0],
+      leftLowerLeg: (t) => [25 + 65 * Math.max(0, wave(t, 0.4)), 0, 0],
+      leftFoot: (t) => [-15 * wave(t, 0.1), 0, 0],
+      rightUpperLeg: (t) => [-10 + 38 * wave(t), 0, 0],
+      rightLowerLeg: (t) => [25 + 65 * Math.max(0, wave(t, 0.9)), 0, 0],
+      rightFoot: (t) => [15 * wave(t, 0.1), 0, 0]
+    }
+  }
+]
+
+/**
+ * Idle, walk and run cycles for the parametric body, played in place. Built per rig
+ * because the hips bob around that rig's own rest height.
+ */
+export function createLocomotionClips(bones: Record<BodyBoneName, THREE.Bone>): THREE.AnimationClip[] {
+  const euler = new THREE.Euler()
+  const quaternion = new THREE.Quaternion()
+  const hipsRest = bones.hips.position
+
+  return CYCLES.map(({ name, duration, motion, bob }) => {
+    // The last sample repeats the first so the loop closes without a hitch
+    const times = Array.from({ length: SAMPLES_PER_CYCLE + 1 }, (_, i) => (i / SAMPLES_PER_CYCLE) * duration)
+
+    const tracks: THREE.KeyframeTrack[] = Object.entries(motion).map(([bone, angles]) => {
+      const values = times.flatMap((time) => {
+        euler.set(...angles(time / duration).map(THREE.MathUtils.degToRad) as [number, number, number])
+        return quaternion.setFromEuler(euler).toArray()
+      })
+      return new THREE.QuaternionKeyframeTrack(`${bone}.quaternion`, times, values)
+    })
+
+    const hipsValues = times.flatMap((time) => [hipsRest.x, hipsRest.y + bob(time / duration), hipsRest.z])
+    tracks.push(new THREE.VectorKeyframeTrack('hips.position', times, hipsValues))
+
+    return new THREE.AnimationClip(name, duration, tracks)
+  })
+}
@@ -0,0 +1,731 @@
+import * as THREE from 'three'
+import { triTable } from 'three/examples/jsm/objects/MarchingCubes.js'
+import type { HumanBoneName } from '../export/humanoid'
+import { DEFAULT_AVATAR_SETTINGS, SETTING_RANGES, type AvatarGender, type AvatarSettings } from './settings'
+
+// Settings that change the skeleton; the mesh is rebuilt when one of them changes
+export type BodyBuild = Pick<AvatarSettings, 'gender' | 'height' | 'shoulderWidth'>
+
+// Settings applied live through morph targets on an existing mesh
+type ShapeSetting = 'muscle' | 'bodyFat' | 'waistSize' | 'facialStructure' | 'noseSize' | 'jawWidth' | 'cheekbones'
+
+// Settings that size the eyes and lips, which are separate meshes for their own materials
+type FeatureSetting = 'eyeSize' | 'mouthSize'
+
+// Each shape setting as -1 at its slider minimum, 0 at its default and 1 at its maximum
+type BodyShape = Record<ShapeSetting, number>
+
+// Bones are named after their VRM humanoid counterparts, so findSkeletonBones maps them as-is
+export type BodyBoneName = Extract<HumanBoneName,
+  | 'hips' | 'spine' | 'chest' | 'upperChest' | 'neck' | 'head' | 'leftEye' | 'rightEye'
+  | 'leftShoulder' | 'leftUpperArm' | 'leftLowerArm' | 'leftHand'
+  | 'rightShoulder' | 'rightUpperArm' | 'rightLowerArm' | 'rightHand'
+  | 'leftUpperLeg' | 'leftLowerLeg' | 'leftFoot' | 'leftToes'
+  | 'rightUpperLeg' | 'rightLowerLeg' | 'rightFoot' | 'rightToes'>
+
+// Centre and radii of the cranium in the head bone's space, for placing hair
+export interface FaceLayout {
+  crown: THREE.Vector3
+  headRadii: THREE.Vector3
+}
+
+export interface BodyRig {
+  mesh: THREE.SkinnedMesh
+  bones: Record<BodyBoneName, THREE.Bone>
+  face: FaceLayout
+}
+
+export const BODY_MESH_NAME = 'Body'
+
+// Parents first, so each bone's parent exists when it is created
+const BODY_BONES: [BodyBoneName, BodyBoneName | null][] = [
+  ['hips', null], ['spine', 'hips'], ['chest', 'spine'], ['upperChest', 'chest'], ['neck', 'upperChest'], ['head', 'neck'],
+  ['leftEye', 'head'], ['rightEye', 'head'],
+  ['leftShoulder', 'upperChest'], ['leftUpperArm', 'leftShoulder'], ['leftLowerArm', 'leftUpperArm'], ['leftHand', 'leftLowerArm'],
+  ['rightShoulder', 'upperChest'], ['rightUpperArm', 'rightShoulder'], ['rightLowerArm', 'rightUpperArm'], ['rightHand', 'rightLowerArm'],
+  ['leftUpperLeg', 'hips'], ['leftLowerLeg', 'leftUpperLeg'], ['leftFoot', 'leftLowerLeg'], ['leftToes', 'leftFoot'],
+  ['rightUpperLeg', 'hips'], ['rightLowerLeg', 'rightUpperLeg'], ['rightFoot', 'rightLowerLeg'], ['rightToes', 'rightFoot']
+]
+
+// Morph targets, each reaching one end of a shape setting's slider
+const SHAPE_MORPHS: { name: string; setting: ShapeSetting; direction: 1 | -1 }[] = [
+  { name: 'Muscular', setting: 'muscle', direction: 1 },
+  { name: 'Slender', setting: 'muscle', direction: -1 },
+  { name: 'Heavy', setting: 'bodyFat', direction: 1 },
+  { name: 'Lean', setting: 'bodyFat', direction: -1 },
+  { name: 'WideWaist', setting: 'waistSize', direction: 1 },
+  { name: 'NarrowWaist', setting: 'waistSize', direction: -1 },
+  { name: 'FullFace', setting: 'facialStructure', direction: 1 },
+  { name: 'NarrowFace', setting: 'facialStructure', direction: -1 },
+  { name: 'LargeNose', setting: 'noseSize', direction: 1 },
+  { name: 'SmallNose', setting: 'noseSize', direction: -1 },
+  { name: 'WideJaw', setting: 'jawWidth', direction: 1 },
+  { name: 'NarrowJaw', setting: 'jawWidth', direction: -1 },
+  { name: 'HighCheekbones', setting: 'cheekbones', direction: 1 },
+  { name: 'SoftCheekbones', setting: 'cheekbones', direction: -1 }
+]
+
+// Morph targets on the eye and lip meshes, as a scale about each mesh's origin
+const FEATURE_MORPHS: { name: string; setting: FeatureSetting; direction: 1 | -1; scale: [number, number, number] }[] = [
+  { name: 'LargeEyes', setting: 'eyeSize', direction: 1, scale: [1.25, 1.25, 1.25] },
+  { name: 'SmallEyes', setting: 'eyeSize', direction: -1, scale: [0.8, 0.8, 0.8] },
+  { name: 'WideMouth', setting: 'mouthSize', direction: 1, scale: [1.3, 1.15, 1.1] },
+  { name: 'SmallMouth', setting: 'mouthSize', direction: -1, scale: [0.75, 0.85, 0.9] }
+]
+
+const NEUTRAL_SHAPE: BodyShape = { muscle: 0, bodyFat: 0, waistSize: 0, facialStructure: 0, noseSize: 0, jawWidth: 0, cheekbones: 0 }
+
+const GENDER_BUILD: Record<AvatarGender, { shoulders: number; hips: number; waist: number; bust: number }> = {
+  male: { shoulders: 1, hips: 0.95, waist: 0.92, bust: 0 },
+  female: { shoulders: 0.88, hips: 1.08, waist: 0.8, bust: 1 },
+  'non-binary': { shoulders: 0.94, hips: 1.01, waist: 0.86, bust: 0.5 }
+}
+
+// Proportions are modelled on a 180cm body with its hip joints at 93cm; units are metres
+const REFERENCE_HEIGHT = 1.8
+const REFERENCE_LEG = 0.93
+// Arms hang this far below horizontal in the rest pose (A-pose)
+const ARM_DROP = THREE.MathUtils.degToRad(45)
+// Eyeball and lip sizes at the slider defaults, on the reference body
+const EYE_RADIUS = 0.0165
+const PUPIL_RADIUS = 0.008
+const MOUTH_RADIUS = 0.0275
+
+// Marching cubes cell size; small enough to resolve fingers-less hands and toes
+const CELL_SIZE = 0.015
+// Cells per side of the coarse grid that finds where the surface is
+const COARSE_STEP = 4
+// How far a vertex's skin weight reaches into neighbouring bones
+const SKIN_FALLOFF = 0.015
+const MAX_BONE_INFLUENCES = 4
+// Blend radii of the smooth unions, scaled with the body
+const TORSO_BLEND = 0.05
+const LIMB_BLEND = 0.02
+const JOINT_BLEND = 0.035
+// Nose and cheekbones are small, so they blend into the head over a shorter distance
+const FACE_BLEND = 0.012
+// Morph deltas are found by stepping along the base normal; this caps runaway steps in creases
+const MAX_MORPH_OFFSET = 0.08
+const MORPH_SMOOTHING_PASSES = 2
+
+type Primitive = (
+  | { bone: BodyBoneName; kind: 'cone'; a: THREE.Vector3; b: THREE.Vector3; ra: number; rb: number }
+  | { bone: BodyBoneName; kind: 'ellipsoid'; center: THREE.Vector3; radii: THREE.Vector3 }
+) & {
+  // Bounds grown by BodyPrimitives.margin; outside them the shape can't affect the surface
+  reach?: THREE.Box3
+}
+
+// The torso (with neck and head) plus one chain per limb; limbs blend into the torso but not into each other
+interface BodyPrimitives {
+  torso: Primitive[]
+  limbs: Primitive[][]
+  // Union of each limb's shape reaches, to skip whole limbs at once
+  limbReach: THREE.Box3[]
+  // Facial details on top of the head, and the union of their reaches
+  face: Primitive[]
+  faceReach: THREE.Box3
+  scale: number
+  // Distances beyond this are only needed for their sign, so shapes further away are skipped
+  margin: number
+}
+
+interface BodyLayout {
+  joints: Record<BodyBoneName, THREE.Vector3>
+  scale: number
+  // Vertical position of a point on the 180cm reference body
+  torsoY: (y: number) => number
+  legY: (y: number) => number
+  handTips: { left: THREE.Vector3; right: THREE.Vector3 }
+  toeTips: { left: THREE.Vector3; right: THREE.Vector3 }
+  shoulderX: number
+  hipX: number
+}
+
+function layoutBody(build: BodyBuild): BodyLayout {
+  const gender = GENDER_BUILD[build.gender]
+  const height = build.height / 100
+  const scale = height / REFERENCE_HEIGHT
+  // Legs take a slightly larger share of any extra height, as they do in real proportions
+  const legLength = REFERENCE_LEG * scale * (1 + (scale - 1) * 0.25)
+  const torsoScale = (height - legLength) / (REFERENCE_HEIGHT - REFERENCE_LEG)
+  const torsoY = (y: number) => legLength + (y - REFERENCE_LEG) * torsoScale
+  const legY = (y: number) => (y / REFERENCE_LEG) * legLength
+
+  const shoulderX = 0.18 * scale * gender.shoulders * (1 + (build.shoulderWidth - 50) * 0.003)
+  const hipX = 0.09 * scale * gender.hips
+  const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z * scale)
+
+  const joints = {} as Record<BodyBoneName, THREE.Vector3>
+  Object.assign(joints, {
+    hips: v(0, torsoY(0.98), 0),
+    spine: v(0, torsoY(1.08), 0),
+    chest: v(0, torsoY(1.2), 0),
+    upperChest: v(0, torsoY(1.32), -0.005),
+    neck: v(0, torsoY(1.46), -0.012),
+    head: v(0, torsoY(1.58), 0),
+    leftEye: v(0.032 * scale, torsoY(1.685), 0.086),
+    rightEye: v(-0.032 * scale, torsoY(1.685), 0.086)
+  })
+
+  const handTips = { left: new THREE.Vector3(), right: new THREE.Vector3() }
+  const toeTips = { left: new THREE.Vector3(), right: new THREE.Vector3() }
+  for (const [side, sign] of [['left', 1], ['right', -1]] as const) {
+    const down = new THREE.Vector3(sign * Math.cos(ARM_DROP), -Math.sin(ARM_DROP), 0)
+    const upperArm = v(sign * shoulderX, torsoY(1.41), -0.015)
+    joints[`${side}Shoulder`] = v(sign * 0.03 * scale, torsoY(1.42), -0.01)
+    joints[`${side}UpperArm`] = upperArm
+    joints[`${side}LowerArm`] = upperArm.clone().addScaledVector(down, 0.31 * torsoScale)
+    joints[`${side}Hand`] = joints[`${side}LowerArm`].clone().addScaledVector(down, 0.26 * torsoScale)
+    handTips[side] = joints[`${side}Hand`].clone().addScaledVector(down, 0.18 * torsoScale)
+
+    joints[`${side}UpperLeg`] = v(sign * hipX, legY(0.93), 0)
+    joints[`${side}LowerLeg`] = v(sign * (hipX + 0.01 * scale), legY(0.5), 0.01)
+    joints[`${side}Foot`] = v(sign * (hipX + 0.02 * scale), legY(0.085), -0.02)
+    joints[`${side}Toes`] = v(sign * (hipX + 0.025 * scale), 0.03 * scale, 0.12)
+    toeTips[side] = v(sign * (hipX + 0.025 * scale), 0.025 * scale, 0.18)
+  }
+
+  return { joints, scale, torsoY, legY, handTips, toeTips, shoulderX, hipX }
+}
+
+function cranium(layout: BodyLayout, shape: BodyShape) {
+  const { scale, torsoY } = layout
+  return {
+    center: new THREE.Vector3(0, torsoY(1.69), 0),
+    // Facial structure broadens or narrows the face without moving it forward over the eyes
+    radii: new THREE.Vector3(0.078 * (1 + 0.12 * shape.facialStructure), 0.105, 0.095).multiplyScalar(scale)
+  }
+}
+
+function buildPrimitives(layout: BodyLayout, build: BodyBuild, shape: BodyShape): BodyPrimitives {
+  const { joints, scale, torsoY, legY, hipX } = layout
+  const gender = GENDER_BUILD[build.gender]
+  const { muscle, bodyFat, waistSize, facialStructure, noseSize, jawWidth, cheekbones } = shape
+  const limbGirth = 1 + 0.22 * muscle + 0.12 * bodyFat
+  const fatWidth = 1 + 0.16 * bodyFat
+  const torsoMuscle = 1 + 0.1 * muscle
+
+  const cone = (bone: BodyBoneName, a: THREE.Vector3, b: THREE.Vector3, ra: number, rb: number): Primitive =>
+    ({ bone, kind: 'cone', a, b, ra: ra * scale, rb: rb * scale })
+  const ellipsoid = (bone: BodyBoneName, x: number, y: number, z: number, rx: number, ry: number, rz: number): Primitive =>
+    ({ bone, kind: 'ellipsoid', center: new THREE.Vector3(x * scale, y, z * scale), radii: new THREE.Vector3(rx, ry, rz).multiplyScalar(scale) })
+  const point = (x: number, y: number, z: number) => new THREE.Vector3(x * scale, y, z * scale)
+
+  const head = cranium(layout, shape)
+  const torso: Primitive[] = [
+    ellipsoid('hips', 0, torsoY(0.96), -0.01, 0.155 * gender.hips * fatWidth, 0.11, 0.115 * fatWidth),
+    ellipsoid('spine', 0, torsoY(1.08), 0, 0.13 * gender.waist * (1 + 0.22 * waistSize) * fatWidth, 0.12, 0.1 * (1 + 0.08 * waistSize)),
+    ellipsoid('spine', 0, torsoY(1.05), 0.035, 0.1 * (1 + 0.1 * bodyFat), 0.09, 0.065 * (1 + 0.8 * bodyFat)),
+    ellipsoid('chest', 0, torsoY(1.22), 0, 0.15 * gender.shoulders * torsoMuscle, 0.14, 0.105 * torsoMuscle),
+    ellipsoid('upperChest', 0, torsoY(1.34), -0.01, (layout.shoulderX / scale) * 0.85 * torsoMuscle, 0.09, 0.095),
+    cone('neck', joints.neck.clone().setY(torsoY(1.42)), new THREE.Vector3(0, torsoY(1.6), 0), 0.055 * (1 + 0.1 * muscle + 0.1 * bodyFat), 0.05),
+    { bone: 'head', kind: 'ellipsoid', center: head.center, radii: head.radii },
+    ellipsoid('head', 0, torsoY(1.615), 0.035, 0.062 * (1 + 0.15 * facialStructure), 0.05, 0.06),
+    ellipsoid('head', 0, torsoY(1.59), 0.015, 0.052 * (1 + 0.3 * jawWidth), 0.03, 0.055)
+  ]
+  for (const sign of [1, -1]) {
+    torso.push(ellipsoid('upperChest', sign * 0.065, torsoY(1.31), 0.06, 0.07, 0.05, 0.035 * (1 + 0.6 * muscle)))
+    if (gender.bust > 0) {
+      const bust = 0.06 * gender.bust * (1 + 0.2 * bodyFat)
+      torso.push(ellipsoid('chest', sign * 0.07, torsoY(1.27), 0.07, bust * 1.08, bust, bust * 0.92))
+    }
+  }
+
+  const face: Primitive[] = [
+    cone('head', point(0, torsoY(1.685), 0.085), point(0, torsoY(1.648), 0.108 + 0.01 * noseSize), 0.008 * (1 + 0.2 * noseSize), 0.012 * (1 + 0.3 * noseSize)),
+    ellipsoid('head', 0, torsoY(1.645), 0.096, 0.018 * (1 + 0.25 * noseSize), 0.01, 0.013)
+  ]
+  for (const sign of [1, -1]) {
+    face.push(ellipsoid('head', sign * 0.04, torsoY(1.66), 0.066, 0.022 * (1 + 0.3 * cheekbones), 0.013, 0.018 * (1 + 0.3 * cheekbones)))
+  }
+
+  const limbs: Primitive[][] = []
+  for (const [side, sign] of [['left', 1], ['right', -1]] as const) {
+    const down = joints[`${side}LowerArm`].clone().sub(joints[`${side}UpperArm`]).normalize()
+    limbs.push([
+      cone(`${side}Shoulder`, new THREE.Vector3(sign * 0.05 * scale, torsoY(1.4), -0.015 * scale), joints[`${side}UpperArm`], 0.05 * (1 + 0.12 * muscle), 0.05 * (1 + 0.2 * muscle)),
+      cone(`${side}UpperArm`, joints[`${side}UpperArm`], joints[`${side}LowerArm`], 0.047 * limbGirth, 0.037 * limbGirth),
+      cone(`${side}LowerArm`, joints[`${side}LowerArm`], joints[`${side}Hand`], 0.038 * limbGirth, 0.026 * (1 + 0.05 * muscle)),
+      cone(`${side}Hand`, joints[`${side}Hand`].clone().addScaledVector(down, 0.02 * scale), layout.handTips[side].clone().addScaledVector(down, -0.03 * scale), 0.03, 0.024)
+    ])
+
+    const thighGirth = 1 + 0.18 * muscle + 0.2 * bodyFat
+    const x = sign * (hipX / scale + 0.01)
+    limbs.push([
+      cone(`${side}UpperLeg`, joints[`${side}UpperLeg`], joints[`${side}LowerLeg`], 0.078 * thighGirth, 0.052 * limbGirth),
+      cone(`${side}LowerLeg`, joints[`${side}LowerLeg`], joints[`${side}Foot`], 0.052 * limbGirth, 0.034),
+      ellipsoid(`${side}LowerLeg`, x, legY(0.36), -0.025, 0.045 * (1 + 0.2 * muscle), 0.1, 0.045 * (1 + 0.2 * muscle)),
+      cone(`${side}Foot`, joints[`${side}Foot`].clone().setY(0.045 * scale).setZ(-0.035 * scale), joints[`${side}Toes`], 0.042, 0.03),
+      cone(`${side}Toes`, joints[`${side}Toes`], layout.toeTips[side], 0.03, 0.022)
+    ])
+  }
+
+  const margin = TORSO_BLEND * scale + CELL_SIZE * 3
+  for (const primitive of [...torso, ...limbs.flat(), ...face]) {
+    primitive.reach = primitiveBounds(primitive, new THREE.Box3()).expandByScalar(margin)
+  }
+  const groupReach = (primitives: Primitive[]) => primitives.reduce((reach, primitive) => reach.union(primitive.reach!), new THREE.Box3())
+  return { torso, limbs, limbReach: limbs.map(groupReach), face, faceReach: groupReach(face), scale, margin }
+}
+
+function primitiveDistance(primitive: Primitive, x: number, y: number, z: number): number {
+  if (primitive.kind === 'cone') {
+    // Capsule whose radius tapers from a to b; not an exact distance, but close enough to polygonize
+    const { a, b, ra, rb } = primitive
+    const abx = b.x - a.x, aby = b.y - a.y, abz = b.z - a.z
+    const t = Math.min(1, Math.max(0, ((x - a.x) * abx + (y - a.y) * aby + (z - a.z) * abz) / (abx * abx + aby * aby + abz * abz)))
+    const dx = x - a.x - abx * t, dy = y - a.y - aby * t, dz = z - a.z - abz * t
+    return Math.sqrt(dx * dx + dy * dy + dz * dz) - (ra + (rb - ra) * t)
+  }
+
+  // Inigo Quilez's ellipsoid bound
+  const { center, radii } = primitive
+  const px = x - center.x, py = y - center.y, pz = z - center.z
+  const k0 = Math.sqrt((px / radii.x) ** 2 + (py / radii.y) ** 2 + (pz / radii.z) ** 2)
+  const k1 = Math.sqrt((px / (radii.x * radii.x)) ** 2 + (py / (radii.y * radii.y)) ** 2 + (pz / (radii.z * radii.z)) ** 2)
+  return k1 === 0 ? -Math.min(radii.x, radii.y, radii.z) : (k0 * (k0 - 1)) / k1
+}
+
+// Polynomial smooth minimum: a union that rounds off the crease where two shapes meet
+function smoothMin(a: number, b: number, blend: number): number {
+  const gap = Math.abs(a - b)
+  // Also covers two skipped (infinitely far) shapes, whose gap is NaN
+  if (!(gap < blend)) return Math.min(a, b)
+  const h = (blend - gap) / blend
+  return Math.min(a, b) - h * h * blend * 0.25
+}
+
+function outside({ min, max }: THREE.Box3, x: number, y: number, z: number): boolean {
+  return x < min.x || x > max.x || y < min.y || y > max.y || z < min.z || z > max.z
+}
+
+function groupDistance(primitives: Primitive[], blend: number, x: number, y: number, z: number): number {
+  let distance = Infinity
+  for (const primitive of primitives) {
+    if (outside(primitive.reach!, x, y, z)) continue
+    distance = smoothMin(distance, primitiveDistance(primitive, x, y, z), blend)
+  }
+  return distance
+}
+
+// Signed distance to the body surface: negative inside
+function bodyDistance(body: BodyPrimitives, x: number, y: number, z: number): number {
+  const torso = groupDistance(body.torso, TORSO_BLEND * body.scale, x, y, z)
+  let distance = torso
+  body.limbs.forEach((limb, index) => {
+    if (outside(body.limbReach[index], x, y, z)) return
+    distance = Math.min(distance, smoothMin(torso, groupDistance(limb, LIMB_BLEND * body.scale, x, y, z), JOINT_BLEND * body.scale))
+  })
+  if (!outside(body.faceReach, x, y, z)) {
+    distance = Math.min(distance, smoothMin(torso, groupDistance(body.face, FACE_BLEND * body.scale, x, y, z), FACE_BLEND * body.scale))
+  }
+  return Math.min(distance, body.margin)
+}
+
+function allPrimitives(body: BodyPrimitives): Primitive[] {
+  return [...body.torso, ...body.limbs.flat(), ...body.face]
+}
+
+function primitiveBounds(primitive: Primitive, bounds: THREE.Box3): THREE.Box3 {
+  if (primitive.kind === 'cone') {
+    const r = Math.max(primitive.ra, primitive.rb)
+    bounds.expandByPoint(primitive.a.clone().addScalar(-r)).expandByPoint(primitive.a.clone().addScalar(r))
+    bounds.expandByPoint(primitive.b.clone().addScalar(-r)).expandByPoint(primitive.b.clone().addScalar(r))
+  } else {
+    bounds.expandByPoint(primitive.center.clone().sub(primitive.radii)).expandByPoint(primitive.center.clone().add(primitive.radii))
+  }
+  return bounds
+}
+
+// 16 edge indices per cube configuration, -1 terminated; typed as nested arrays upstream but flat at runtime
+const MC_TRIANGLES = triTable as unknown as Int32Array
+
+// Corners of a marching cubes cell and the corner pairs of its 12 edges, in the order triTable expects
+const CUBE_CORNERS = [[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0], [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]]
+const CUBE_EDGES = [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7]]
+
+/**
+ * Polygonize the body's distance field into one closed, indexed surface. Vertices on
+ * cell edges are shared between neighbouring cells, so the mesh has no seams.
+ */
+function polygonize(body: BodyPrimitives): { positions: number[]; indices: number[] } {
+  const bounds = new THREE.Box3()
+  allPrimitives(body).forEach((primitive) => primitiveBounds(primitive, bounds))
+  bounds.expandByScalar(CELL_SIZE * 2)
+
+  const size = bounds.getSize(new THREE.Vector3())
+  const nx = Math.ceil(size.x / CELL_SIZE) + 1
+  const ny = Math.ceil(size.y / CELL_SIZE) + 1
+  const nz = Math.ceil(size.z / CELL_SIZE) + 1
+  const origin = bounds.min
+  const at = (i: number, j: number, k: number) => (k * ny + j) * nx + i
+
+  // A coarse pass first: samples far from the surface only need the sign of their nearest coarse sample
+  const cx = Math.ceil(nx / COARSE_STEP) + 1, cy = Math.ceil(ny / COARSE_STEP) + 1, cz = Math.ceil(nz / COARSE_STEP) + 1
+  const coarse = new Float32Array(cx * cy * cz)
+  for (let k = 0; k < cz; k++) {
+    for (let j = 0; j < cy; j++) {
+      for (let i = 0; i < cx; i++) {
+        const step = COARSE_STEP * CELL_SIZE
+        coarse[(k * cy + j) * cx + i] = bodyDistance(body, origin.x + i * step, origin.y + j * step, origin.z + k * step)
+      }
+    }
+  }
+
+  // Beyond this the fine sample can't be next to a sign change, as distances change by at most one cell per cell
+  const farAway = (COARSE_STEP * 0.87 + 1.5) * CELL_SIZE
+  const field = new Float32Array(nx * ny * nz)
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const estimate = coarse[(Math.round(k / COARSE_STEP) * cy + Math.round(j / COARSE_STEP)) * cx + Math.round(i / COARSE_STEP)]
+        field[at(i, j, k)] = Math.abs(estimate) > farAway
+          ? estimate
+          : bodyDistance(body, origin.x + i * CELL_SIZE, origin.y + j * CELL_SIZE, origin.z + k * CELL_SIZE)
+      }
+    }
+  }
+
+  const positions: number[] = []
+  const indices: number[] = []
+  // Vertex index per grid edge (3 axes per grid point), so neighbouring cells share vertices
+  const edgeVertices = new Int32Array(nx * ny * nz * 3).fill(-1)
+  const values = new Float64Array(8)
+  const cellEdges = new Int32Array(12)
+  // Grid offsets of each cell corner, and of the grid edge each cell edge lies on
+  const cornerOffsets = CUBE_CORNERS.map(([ci, cj, ck]) => at(ci, cj, ck))
+  const edgeKeys = CUBE_EDGES.map(([c0, c1]) => {
+    const p0 = CUBE_CORNERS[c0], p1 = CUBE_CORNERS[c1]
+    const axis = p0[0] !== p1[0] ? 0 : p0[1] !== p1[1] ? 1 : 2
+    return cornerOffsets[p0[axis] < p1[axis] ? c0 : c1] * 3 + axis
+  })
+
+  for (let k = 0; k < nz - 1; k++) {
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        const cell = at(i, j, k)
+        let cube = 0
+        for (let c = 0; c < 8; c++) {
+          values[c] = field[cell + cornerOffsets[c]]
+          if (values[c] > 0) cube |= 1 << c
+        }
+        if (cube === 0 || cube === 255) continue
+
+        for (let e = 0; e < 12; e++) {
+          const [c0, c1] = CUBE_EDGES[e]
+          if ((values[c0] > 0) === (values[c1] > 0)) continue
+
+          const key = cell * 3 + edgeKeys[e]
+          if (edgeVertices[key] === -1) {
+            const p0 = CUBE_CORNERS[c0], p1 = CUBE_CORNERS[c1]
+            const t = values[c0] / (values[c0] - values[c1])
+            edgeVertices[key] = positions.length / 3
+            positions.push(
+              origin.x + (i + p0[0] + (p1[0] - p0[0]) * t) * CELL_SIZE,
+              origin.y + (j + p0[1] + (p1[1] - p0[1]) * t) * CELL_SIZE,
+              origin.z + (k + p0[2] + (p1[2] - p0[2]) * t) * CELL_SIZE
+            )
+          }
+          cellEdges[e] = edgeVertices[key]
+        }
+
+        const row = cube * 16
+        for (let n = 0; MC_TRIANGLES[row + n] !== -1; n += 3) {
+          indices.push(cellEdges[MC_TRIANGLES[row + n]], cellEdges[MC_TRIANGLES[row + n + 1]], cellEdges[MC_TRIANGLES[row + n + 2]])
+        }
+      }
+    }
+  }
+
+  return { positions, indices }
+}
+
+// Gradient of the distance field from four samples on a tetrahedron around the point
+function surfaceNormal(body: BodyPrimitives, x: number, y: number, z: number, target: THREE.Vector3) {
+  const e = CELL_SIZE * 0.5
+  const a = bodyDistance(body, x + e, y - e, z - e)
+  const b = bodyDistance(body, x - e, y - e, z + e)
+  const c = bodyDistance(body, x - e, y + e, z - e)
+  const d = bodyDistance(body, x + e, y + e, z + e)
+  return target.set(a - b - c + d, -a - b + c + d, -a + b - c + d).normalize()
+}
+
+// Up to four bones per vertex, weighted by how close the vertex is to each bone's shapes
+function computeSkinWeights(body: BodyPrimitives, positions: ArrayLike<number>, boneIndex: Map<BodyBoneName, number>) {
+  const count = positions.length / 3
+  const skinIndices = new Uint16Array(count * 4)
+  const skinWeights = new Float32Array(count * 4)
+  const primitives = allPrimitives(body)
+  const distances = new Float64Array(primitives.length)
+  const falloff = SKIN_FALLOFF * body.scale
+
+  for (let v = 0; v < count; v++) {
+    const x = positions[v * 3], y = positions[v * 3 + 1], z = positions[v * 3 + 2]
+    let nearest = Infinity
+    primitives.forEach((primitive, p) => {
+      distances[p] = outside(primitive.reach!, x, y, z) ? Infinity : primitiveDistance(primitive, x, y, z)
+      nearest = Math.min(nearest, distances[p])
+    })
+
+    // A bone counts with its closest shape, so bones built from several shapes aren't favoured
+    const influence = new Map<BodyBoneName, number>()
+    primitives.forEach((primitive, p) => {
+      const weight = Math.exp(-(distances[p] - nearest) / falloff)
+      if (weight > 0.01) influence.set(primitive.bone, Math.max(influence.get(primitive.bone) ?? 0, weight))
+    })
+
+    const strongest = [...influence].sort((a, b) => b[1] - a[1]).slice(0, MAX_BONE_INFLUENCES)
+    const total = strongest.reduce((sum, [, weight]) => sum + weight, 0)
+    strongest.forEach(([bone, weight], slot) => {
+      skinIndices[v * 4 + slot] = boneIndex.get(bone)!
+      skinWeights[v * 4 + slot] = weight / total
+    })
+  }
+
+  return { skinIndices, skinWeights }
+}
+
+function samePrimitive(a: Primitive, b: Primitive): boolean {
+  if (a.kind === 'cone' && b.kind === 'cone') {
+    return a.a.equals(b.a) && a.b.equals(b.b) && a.ra === b.ra && a.rb === b.rb
+  }
+  if (a.kind === 'ellipsoid' && b.kind === 'ellipsoid') {
+    return a.center.equals(b.center) && a.radii.equals(b.radii)
+  }
+  return false
+}
+
+// Where two shapes of the same body can differ: the reaches of every primitive that changed between them
+function changedRegion(base: BodyPrimitives, target: BodyPrimitives): THREE.Box3 {
+  const region = new THREE.Box3()
+  const before = allPrimitives(base)
+  allPrimitives(target).forEach((primitive, index) => {
+    if (!samePrimitive(before[index], primitive)) {
+      region.union(before[index].reach!).union(primitive.reach!)
+    }
+  })
+  return region
+}
+
+/**
+ * Offsets that take each base vertex onto the surface of another body shape. The
+ * vertex steps along its normal towards the target surface, which keeps the topology
+ * of the base mesh so the result can be blended as a morph target. Vertices away from
+ * the shapes that changed are left in place, so small facial morphs are cheap.
+ */
+function projectMorph(base: BodyPrimitives, target: BodyPrimitives, positions: ArrayLike<number>, normals: ArrayLike<number>): Float32Array {
+  const count = positions.length / 3
+  const offsets = new Float32Array(count * 3)
+  const region = changedRegion(base, target)
+  const point = new THREE.Vector3()
+  const normal = new THREE.Vector3()
+  const offset = new THREE.Vector3()
+  const limit = MAX_MORPH_OFFSET * target.scale
+
+  for (let v = 0; v < count; v++) {
+    point.fromArray(positions, v * 3)
+    if (!region.containsPoint(point)) continue
+    normal.fromArray(normals, v * 3)
+    offset.set(0, 0, 0)
+    for (let step = 0; step < 2; step++) {
+      offset.addScaledVector(normal, -bodyDistance(target, point.x + offset.x, point.y + offset.y, point.z + offset.z))
+    }
+    offset.clampLength(0, limit).toArray(offsets, v * 3)
+  }
+
+  return offsets
+}
+
+// Each vertex's neighbours across triangle edges, packed as offsets into one list
+function vertexNeighbours(indices: number[], count: number): { start: Uint32Array; list: Uint32Array } {
+  const start = new Uint32Array(count + 1)
+  for (const index of indices) start[index + 1] += 2
+  for (let v = 0; v < count; v++) start[v + 1] += start[v]
+
+  const list = new Uint32Array(start[count])
+  const filled = start.slice(0, count)
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let corner = 0; corner < 3; corner++) {
+      const v = indices[t + corner]
+      list[filled[v]++] = indices[t + (corner + 1) % 3]
+      list[filled[v]++] = indices[t + (corner + 2) % 3]
+    }
+  }
+  return { start, list }
+}
+
+/**
+ * Blend each offset halfway towards the average of its neighbours. Stepping along
+ * normals folds the surface where a small shape (a nose, a cheekbone) grows out of a
+ * larger one; a couple of passes spread the movement evenly across the fold.
+ */
+function smoothOffsets(offsets: Float32Array, { start, list }: ReturnType<typeof vertexNeighbours>, passes: number): Float32Array {
+  let current = offsets
+  for (let pass = 0; pass < passes; pass++) {
+    const next = new Float32Array(current.length)
+    for (let v = 0; v < start.length - 1; v++) {
+      const from = start[v], to = start[v + 1]
+      for (let axis = 0; axis < 3; axis++) {
+        let sum = 0
+        for (let n = from; n < to; n++) sum += current[list[n] * 3 + axis]
+        next[v * 3 + axis] = to > from ? (current[v * 3 + axis] + sum / (to - from)) / 2 : current[v * 3 + axis]
+      }
+    }
+    current = next
+  }
+  return current
+}
+
+// Relative morph targets that scale a feature mesh about its origin, one per FEATURE_MORPHS entry for `setting`
+function addFeatureMorphs(geometry: THREE.BufferGeometry, setting: FeatureSetting): THREE.BufferGeometry {
+  const base = geometry.getAttribute('position')
+  geometry.morphTargetsRelative = true
+  geometry.morphAttributes.position = FEATURE_MORPHS.filter((morph) => morph.setting === setting).map(({ name, scale }) => {
+    const offsets = new THREE.Float32BufferAttribute(new Float32Array(base.count * 3), 3)
+    for (let i = 0; i < base.count; i++) {
+      offsets.setXYZ(i, base.getX(i) * (scale[0] - 1), base.getY(i) * (scale[1] - 1), base.getZ(i) * (scale[2] - 1))
+    }
+    offsets.name = name
+    return offsets
+  })
+  return geometry
+}
+
+// Eyeballs on the eye bones and lips on the head bone, keeping the names the exporters look for
+function addFaceFeatures(layout: BodyLayout, bones: Record<BodyBoneName, THREE.Bone>) {
+  const { scale } = layout
+  const eyeWhite = new THREE.MeshStandardMaterial({ name: 'Eye_White', color: '#ffffff' })
+  const pupil = new THREE.MeshStandardMaterial({ name: 'Pupil', color: '#1a1a2e' })
+  const lips = new THREE.MeshStandardMaterial({ name: 'Lips', color: '#8B2635', roughness: 0.3 })
+
+  const attach = (bone: THREE.Bone, name: string, geometry: THREE.BufferGeometry, material: THREE.Material) => {
+    const mesh = new THREE.Mesh(geometry, material)
+    mesh.name = name
+    mesh.castShadow = true
+    bone.add(mesh)
+    return mesh
+  }
+
+  for (const [side, suffix] of [['left', 'L'], ['right', 'R']] as const) {
+    const eye = bones[`${side}Eye`]
+    attach(eye, `Eye_${suffix}`, addFeatureMorphs(new THREE.SphereGeometry(EYE_RADIUS * scale, 16, 16), 'eyeSize'), eyeWhite)
+    // Pupils sit on the front of the eyeball, so they scale with it about the eye's centre
+    const pupilGeometry = new THREE.SphereGeometry(PUPIL_RADIUS * scale, 12, 12).translate(0, 0, (EYE_RADIUS - 0.005) * scale)
+    attach(eye, `Pupil_${suffix}`, addFeatureMorphs(pupilGeometry, 'eyeSize'), pupil)
+  }
+
+  const mouthGeometry = new THREE.SphereGeometry(MOUTH_RADIUS * scale, 16, 8, 0, Math.PI * 2, 0, Math.PI * 0.5)
+  attach(bones.head, 'Mouth', addFeatureMorphs(mouthGeometry, 'mouthSize'), lips).position
+    .set(0, layout.torsoY(1.6), 0.086 * scale)
+    .sub(layout.joints.head)
+}
+
+/**
+ * Generate the parametric body: one continuous skinned mesh over a humanoid skeleton
+ * in an A-pose, standing on y = 0 and facing +z. Bone lengths come from `build`; body
+ * and face shape sliders are morph targets set by applyBodyShape. Eyes and lips are
+ * separate meshes on the head and eye bones, with morph targets of their own.
+ */
+export function createBodyRig(build: BodyBuild): BodyRig {
+  const layout = layoutBody(build)
+  const base = buildPrimitives(layout, build, NEUTRAL_SHAPE)
+  const { positions, indices } = polygonize(base)
+
+  const normals = new Float32Array(positions.length)
+  const normal = new THREE.Vector3()
+  for (let v = 0; v < positions.length; v += 3) {
+    surfaceNormal(base, positions[v], positions[v + 1], positions[v + 2], normal).toArray(normals, v)
+  }
+
+  // Bones start out unrotated, so a joint's offset from its parent is just the difference in position
+  const bones = {} as Record<BodyBoneName, THREE.Bone>
+  const boneIndex = new Map<BodyBoneName, number>()
+  for (const [name, parent] of BODY_BONES) {
+    const bone = new THREE.Bone()
+    bone.name = name
+    bone.position.copy(layout.joints[name])
+    if (parent) {
+      bone.position.sub(layout.joints[parent])
+      bones[parent].add(bone)
+    }
+    bones[name] = bone
+    boneIndex.set(name, boneIndex.size)
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3))
+  geometry.setIndex(indices)
+
+  const { skinIndices, skinWeights } = computeSkinWeights(base, positions, boneIndex)
+  geometry.setAttribute('skinIndex', new THREE.Uint16BufferAttribute(skinIndices, 4))
+  geometry.setAttribute('skinWeight', new THREE.Float32BufferAttribute(skinWeights, 4))
+
+  const neighbours = vertexNeighbours(indices, positions.length / 3)
+  geometry.morphTargetsRelative = true
+  geometry.morphAttributes.position = SHAPE_MORPHS.map(({ name, setting, direction }) => {
+    const target = buildPrimitives(layout, build, { ...NEUTRAL_SHAPE, [setting]: direction })
+    const offsets = smoothOffsets(projectMorph(base, target, positions, normals), neighbours, MORPH_SMOOTHING_PASSES)
+    const attribute = new THREE.Float32BufferAttribute(offsets, 3)
+    attribute.name = name
+    return attribute
+  })
+  geometry.computeBoundingBox()
+  geometry.computeBoundingSphere()
+
+  const mesh = new THREE.SkinnedMesh(geometry, new THREE.MeshStandardMaterial({ name: 'Skin', roughness: 0.65, metalness: 0.05 }))
+  mesh.name = BODY_MESH_NAME
+  mesh.castShadow = true
+  mesh.receiveShadow = true
+  mesh.add(bones.hips)
+  mesh.bind(new THREE.Skeleton(BODY_BONES.map(([name]) => bones[name])))
+  addFaceFeatures(layout, bones)
+
+  const { center, radii } = cranium(layout, NEUTRAL_SHAPE)
+  return { mesh, bones, face: { crown: center.clone().sub(layout.joints.head), headRadii: radii } }
+}
+
+// -1 at the slider minimum, 0 at the default, 1 at the maximum
+function sliderPosition(settings: AvatarSettings, setting: ShapeSetting | FeatureSetting): number {
+  const value = settings[setting]
+  const neutral = DEFAULT_AVATAR_SETTINGS[setting]
+  const { min, max } = SETTING_RANGES[setting]
+  if (value >= neutral) return max === neutral ? 0 : (value - neutral) / (max - neutral)
+  return neutral === min ? 0 : (value - neutral) / (neutral - min)
+}
+
+/**
+ * Set the body, eye and lip morph weights under `root` from the current settings;
+ * cheap enough to run on every slider move.
+ */
+export function applyBodyShape(root: THREE.Object3D, settings: AvatarSettings) {
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return
+    const dictionary = object.morphTargetDictionary
+    const influences = object.morphTargetInfluences
+    if (!dictionary || !influences) return
+
+    for (const { name, setting, direction } of [...SHAPE_MORPHS, ...FEATURE_MORPHS]) {
+      const index = dictionary[name]
+      if (index !== undefined) {
+        influences[index] = Math.max(0, sliderPosition(settings, setting) * direction)
+      }
+    }
+  })
+}
+
+export function disposeBodyRig(rig: BodyRig) {
+  const materials = new Set<THREE.Material>()
+  rig.mesh.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return
+    object.geometry.dispose()
+    materials.add(object.material as THREE.Material)
+  })
+  materials.forEach((material) => material.dispose())
+  rig.mesh.skeleton.dispose()
+}
+
+export function isParametricBody(root: THREE.Object3D): boolean {
+  return root.getObjectByName(BODY_MESH_NAME) instanceof THREE.SkinnedMesh
+}
@@ -0,0 +1,222 @@
+import * as THREE from 'three'
+import { BVHLoader } from 'three/examples/jsm/loaders/BVHLoader.js'
+import { clone as cloneWithSkeletons } from 'three/examples/jsm/utils/SkeletonUtils.js'
+import { findSkeletonBones, type HumanBoneName, type HumanoidBones } from '../export/humanoid'
+import { restSkeletons } from '../export/scene'
+
+// A BVH take as parsed, still on the performer's own skeleton
+export interface MotionCapture {
+  name: string
+  root: THREE.Bone
+  clip: THREE.AnimationClip
+  // Joints whose names map onto humanoid bones, see matchHumanBone
+  bones: HumanoidBones
+  frameCount: number
+}
+
+// Retargeted clips are resampled at this rate whatever the BVH frame time was
+const SAMPLE_RATE = 30
+
+// Limb bones and the joint each points at, used to line up rest poses (say a T-pose take on the A-pose body)
+const LIMB_CHILDREN: Partial<Record<HumanBoneName, HumanBoneName>> = {
+  leftShoulder: 'leftUpperArm', leftUpperArm: 'leftLowerArm', leftLowerArm: 'leftHand',
+  rightShoulder: 'rightUpperArm', rightUpperArm: 'rightLowerArm', rightLowerArm: 'rightHand',
+  leftUpperLeg: 'leftLowerLeg', leftLowerLeg: 'leftFoot', leftFoot: 'leftToes',
+  rightUpperLeg: 'rightLowerLeg', rightLowerLeg: 'rightFoot', rightFoot: 'rightToes'
+}
+
+const FOOT_BONES: HumanBoneName[] = ['leftFoot', 'rightFoot', 'leftToes', 'rightToes']
+
+/**
+ * Parse a BVH file's hierarchy and motion. Joint names are mapped onto humanoid
+ * bones up front, so a take without a recognisable hips joint is rejected here
+ * rather than when it is first played.
+ */
+export function parseBVH(text: string, name: string): MotionCapture {
+  if (!/^\s*HIERARCHY\b/.test(text) || !/\bMOTION\b/.test(text)) {
+    throw new Error('Not a BVH file: HIERARCHY and MOTION sections are required')
+  }
+
+  let result: ReturnType<BVHLoader['parse']>
+  try {
+    result = new BVHLoader().parse(text)
+  } catch {
+    throw new Error('The BVH file is malformed')
+  }
+
+  const root = result.skeleton.bones[0]
+  const frameCount = result.clip.tracks[0]?.times.length ?? 0
+  if (!root || frameCount === 0) {
+    throw new Error('The BVH file has no motion frames')
+  }
+
+  const bones = findSkeletonBones(root)
+  if (!bones.hips) {
+    throw new Error('No joint in the BVH file could be matched to the hips')
+  }
+
+  result.clip.name = name
+  return { name, root, clip: result.clip, bones, frameCount }
+}
+
+// Bind pose of every skeleton under `target`, on a copy standing at the origin without viewport helpers
+function restPoseOf(target: THREE.Object3D): THREE.Object3D {
+  const rest = cloneWithSkeletons(target)
+  const helpers: THREE.Object3D[] = []
+  rest.traverse((object) => {
+    if (object.userData.exportIgnore) helpers.push(object)
+  })
+  helpers.forEach((helper) => helper.removeFromParent())
+  rest.position.set(0, 0, 0)
+  rest.quaternion.identity()
+  rest.scale.set(1, 1, 1)
+  restSkeletons(rest)
+  return rest
+}
+
+// Height of the skinned meshes in the rest pose, in the target's own units. Bones stop
+// short of the top of the head, so they only stand in when nothing is skinned
+function restHeight(rest: THREE.Object3D, bones: THREE.Object3D[]): number {
+  const bounds = new THREE.Box3()
+  const box = new THREE.Box3()
+  rest.traverse((object) => {
+    if (!(object instanceof THREE.SkinnedMesh)) return
+    object.computeBoundingBox()
+    bounds.union(box.copy(object.boundingBox!).applyMatrix4(object.matrixWorld))
+  })
+  if (bounds.isEmpty()) {
+    bones.forEach((bone) => bounds.expandByPoint(worldPosition(bone)))
+  }
+  return bounds.max.y - bounds.min.y
+}
+
+const worldPosition = (object: THREE.Object3D) => object.getWorldPosition(new THREE.Vector3())
+const worldQuaternion = (object: THREE.Object3D) => object.getWorldQuaternion(new THREE.Quaternion())
+
+// Horizontal direction from the hips to the left leg (or arm): which way a skeleton faces
+function leftward(bones: HumanoidBones, position: (bone: HumanBoneName) => THREE.Vector3): THREE.Vector3 | null {
+  const side: HumanBoneName | undefined = bones.leftUpperLeg ? 'leftUpperLeg' : bones.leftUpperArm ? 'leftUpperArm' : undefined
+  if (!side) return null
+  const direction = position(side).sub(position('hips')).setY(0)
+  return direction.lengthSq() > 0 ? direction.normalize() : null
+}
+
+/**
+ * Retarget a take onto the avatar under `target` (the mixer root the clip will play
+ * on). Each mapped bone copies the performer's rotation away from their rest pose
+ * in world space, after both rests are lined up limb by limb and turned to face the
+ * same way. Root motion is scaled by the ratio of the avatar's rest height to the
+ * performer's, both measured in their own units, with standing height pinned so the
+ * feet stay on the floor. Scaling applied above `target` (AvatarSettings.height on a
+ * custom model) stretches the root motion along with the body.
+ */
+export function retargetMotion(motion: MotionCapture, target: THREE.Object3D): THREE.AnimationClip {
+  const rest = restPoseOf(target)
+  const targetBones = findSkeletonBones(rest)
+  if (!targetBones.hips) {
+    throw new Error('The avatar has no humanoid skeleton to retarget onto')
+  }
+
+  const source = motion.root
+  source.updateMatrixWorld(true)
+  const mapped = (Object.keys(motion.bones) as HumanBoneName[]).filter((bone) => targetBones[bone])
+  const sourceRest = new Map(mapped.map((bone) => [bone, worldQuaternion(motion.bones[bone]!)]))
+  const sourcePosition = (bone: HumanBoneName) => worldPosition(motion.bones[bone]!)
+  const targetPosition = (bone: HumanBoneName) => worldPosition(targetBones[bone]!)
+
+  // Performer's size from the lowest joint to the top of the head end site
+  const sourceBounds = new THREE.Box3()
+  source.traverse((joint) => sourceBounds.expandByPoint(worldPosition(joint)))
+  const sourceHeight = sourceBounds.max.y - sourceBounds.min.y
+  const targetHeight = restHeight(rest, Object.values(targetBones))
+  const scale = sourceHeight > 0 && targetHeight > 0 ? targetHeight / sourceHeight : 1
+
+  const sourceLeft = leftward(motion.bones, sourcePosition)
+  const targetLeft = leftward(targetBones, targetPosition)
+  const facing = sourceLeft && targetLeft ? new THREE.Quaternion().setFromUnitVectors(sourceLeft, targetLeft) : new THREE.Quaternion()
+  const facingInverse = facing.clone().invert()
+
+  const alignment = new Map<HumanBoneName, THREE.Quaternion>()
+  for (const bone of mapped) {
+    const child = LIMB_CHILDREN[bone]
+    if (!child || !motion.bones[child] || !targetBones[child]) continue
+    const from = targetPosition(child).sub(targetPosition(bone)).normalize()
+    const to = sourcePosition(child).sub(sourcePosition(bone)).applyQuaternion(facing).normalize()
+    alignment.set(bone, new THREE.Quaternion().setFromUnitVectors(from, to))
+  }
+
+  const sourceFeet = FOOT_BONES.filter((bone) => motion.bones[bone])
+  const restHipsY = sourcePosition('hips').y
+  const restFootY = Math.min(...sourceFeet.map((bone) => sourcePosition(bone).y))
+
+  // Sample the take on its own skeleton; a one-shot loop so the last frame doesn't wrap to the first
+  const duration = motion.clip.duration
+  const frameCount = Math.max(2, Math.round(duration * SAMPLE_RATE) + 1)
+  const times = Array.from({ length: frameCount }, (_, i) => Math.min(duration, i / SAMPLE_RATE))
+  const mixer = new THREE.AnimationMixer(source)
+  mixer.clipAction(motion.clip).setLoop(THREE.LoopOnce, 1).play().clampWhenFinished = true
+
+  const frames = times.map((time) => {
+    mixer.setTime(time)
+    source.updateMatrixWorld(true)
+    return {
+      rotations: new Map(mapped.map((bone) => [bone, worldQuaternion(motion.bones[bone]!)])),
+      hips: sourcePosition('hips'),
+      footY: Math.min(...sourceFeet.map((bone) => sourcePosition(bone).y))
+    }
+  })
+  mixer.stopAllAction()
+  mixer.uncacheRoot(source)
+
+  // The lowest the feet get over the take is taken as the floor
+  const floorY = Math.min(...frames.map((frame) => frame.footY))
+  const standingHipsY = sourceFeet.length > 0 ? floorY + restHipsY - restFootY : frames[0].hips.y
+
+  const humanOf = new Map<THREE.Object3D, HumanBoneName>(mapped.map((bone) => [targetBones[bone]!, bone]))
+  const order: THREE.Bone[] = []
+  rest.traverse((object) => {
+    if (object instanceof THREE.Bone) order.push(object)
+  })
+  const restLocal = new Map(order.map((bone) => [bone, bone.quaternion.clone()]))
+  const restWorld = new Map(order.map((bone) => [bone, worldQuaternion(bone)]))
+  const outerParents = new Map(order.filter((bone) => !(bone.parent instanceof THREE.Bone)).map((bone) => [bone.parent, bone.parent ? worldQuaternion(bone.parent) : new THREE.Quaternion()]))
+
+  const rotationValues = new Map<THREE.Bone, number[]>(order.filter((bone) => humanOf.has(bone)).map((bone) => [bone, []]))
+  const hipsValues: number[] = []
+  const hips = targetBones.hips
+  const hipsRest = targetPosition('hips')
+  const hipsParentInverse = hips.parent ? hips.parent.matrixWorld.clone().invert() : new THREE.Matrix4()
+
+  for (const frame of frames) {
+    const world = new Map<THREE.Object3D | null, THREE.Quaternion>(outerParents)
+    for (const bone of order) {
+      const parentWorld = world.get(bone.parent) ?? new THREE.Quaternion()
+      const human = humanOf.get(bone)
+      if (!human) {
+        world.set(bone, parentWorld.clone().multiply(restLocal.get(bone)!))
+        continue
+      }
+
+      // The performer's rotation away from rest, turned into the avatar's facing
+      const delta = facing.clone()
+        .multiply(frame.rotations.get(human)!)
+        .multiply(sourceRest.get(human)!.clone().invert())
+        .multiply(facingInverse)
+      const boneWorld = delta.multiply(alignment.get(human) ?? new THREE.Quaternion()).multiply(restWorld.get(bone)!)
+      world.set(bone, boneWorld)
+      rotationValues.get(bone)!.push(...parentWorld.clone().invert().multiply(boneWorld).toArray())
+    }
+
+    const travel = frame.hips.clone().sub(frames[0].hips).applyQuaternion(facing).multiplyScalar(scale)
+    const position = new THREE.Vector3(
+      hipsRest.x + travel.x,
+      hipsRest.y + (frame.hips.y - standingHipsY) * scale,
+      hipsRest.z + travel.z
+    ).applyMatrix4(hipsParentInverse)
+    hipsValues.push(...position.toArray())
+  }
+
+  const tracks: THREE.KeyframeTrack[] = [...rotationValues].map(([bone, values]) => new THREE.QuaternionKeyframeTrack(`${bone.name}.quaternion`, times, values))
+  tracks.push(new THREE.VectorKeyframeTrack(`${hips.name}.position`, times, hipsValues))
+  return new THREE.AnimationClip(motion.name, duration, tracks)
+}
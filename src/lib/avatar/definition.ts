@@ -0,0 +1,191 @@
+import {
+  AVATAR_SETTINGS_VERSION,
+  diffAvatarSettings,
+  parseAvatarSettings,
+  validateLightingSettings,
+  type AvatarSettings,
+  type LightingSettings
+} from './settings'
+
+export const AVATAR_DEFINITION_FORMAT = 'hd-avatar-definition'
+export const AVATAR_DEFINITION_VERSION = 1
+
+// Inputs of the procedural skin texture (TextureEnhancer)
+export interface TextureParams {
+  // Square texture edge in pixels: 512, 1024 or 2048
+  quality: number
+  muscleIntensity: number
+  skinDetail: number
+  vascularization: number
+}
+
+export const DEFAULT_TEXTURE_PARAMS: TextureParams = {
+  quality: 1024,
+  muscleIntensity: 50,
+  skinDetail: 70,
+  vascularization: 30
+}
+
+const TEXTURE_QUALITIES = [512, 1024, 2048]
+
+/**
+ * Avatar definition file (`*.avatar.json`), for moving an avatar between accounts or
+ * keeping it in source control:
+ *
+ *   format          always "hd-avatar-definition"
+ *   schemaVersion   version of this file layout (AVATAR_DEFINITION_VERSION)
+ *   name            display name of the avatar
+ *   exportedAt      ISO 8601 timestamp, informational only
+ *   settings        AvatarSettings plus its own `version` (see settings.ts), so the
+ *                   settings migrations apply to imported files too
+ *   lighting        LightingSettings
+ *   customModel     { url, name } of an uploaded GLB that replaces the procedural
+ *                   body, or null. Only the URL is stored, not the model itself
+ *   texture         TextureParams for the generated skin texture
+ */
+export interface AvatarDefinition {
+  format: typeof AVATAR_DEFINITION_FORMAT
+  schemaVersion: number
+  name: string
+  exportedAt: string
+  settings: AvatarSettings & { version: number }
+  lighting: LightingSettings
+  customModel: { url: string; name: string } | null
+  texture: TextureParams
+}
+
+export type AvatarDefinitionContent = Pick<AvatarDefinition, 'name' | 'lighting' | 'customModel' | 'texture'> & {
+  settings: AvatarSettings
+}
+
+export interface ParsedAvatarDefinition {
+  definition: AvatarDefinitionContent
+  // Values that were missing or out of range and got repaired
+  issues: string[]
+}
+
+export interface DefinitionChange {
+  section: 'Avatar' | 'Settings' | 'Lighting' | 'Model' | 'Texture'
+  label: string
+  from: string
+  to: string
+}
+
+export function serializeAvatarDefinition(content: AvatarDefinitionContent): string {
+  const definition: AvatarDefinition = {
+    format: AVATAR_DEFINITION_FORMAT,
+    schemaVersion: AVATAR_DEFINITION_VERSION,
+    name: content.name,
+    exportedAt: new Date().toISOString(),
+    settings: { version: AVATAR_SETTINGS_VERSION, ...content.settings },
+    lighting: content.lighting,
+    customModel: content.customModel,
+    texture: content.texture
+  }
+  return JSON.stringify(definition, null, 2) + '\n'
+}
+
+function parseTextureParams(raw: unknown, issues: string[]): TextureParams {
+  const texture = { ...DEFAULT_TEXTURE_PARAMS }
+  if (typeof raw !== 'object' || raw === null) {
+    issues.push('texture: missing, using defaults')
+    return texture
+  }
+
+  const fields = raw as Record<string, unknown>
+  if (TEXTURE_QUALITIES.includes(fields.quality as number)) {
+    texture.quality = fields.quality as number
+  } else {
+    issues.push(`texture.quality: expected one of ${TEXTURE_QUALITIES.join(', ')}, reset to ${texture.quality}`)
+  }
+
+  for (const key of ['muscleIntensity', 'skinDetail', 'vascularization'] as const) {
+    const value = fields[key]
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`texture.${key}: not a number, reset to ${texture[key]}`)
+    } else {
+      texture[key] = Math.min(100, Math.max(0, Math.round(value)))
+      if (texture[key] !== value) issues.push(`texture.${key}: ${value} set to ${texture[key]}`)
+    }
+  }
+  return texture
+}
+
+function parseCustomModel(raw: unknown, issues: string[]): AvatarDefinition['customModel'] {
+  if (raw === null || raw === undefined) return null
+
+  const fields = raw as Record<string, unknown>
+  if (typeof fields.url !== 'string' || !/^https?:\/\//.test(fields.url)) {
+    issues.push('customModel.url: expected an http(s) URL, model dropped')
+    return null
+  }
+  return { url: fields.url, name: typeof fields.name === 'string' && fields.name ? fields.name : 'Custom model' }
+}
+
+/**
+ * Validate a definition file. Throws when the file isn't a definition at all; fixable
+ * problems (missing fields, values out of range) are repaired and listed in `issues`.
+ */
+export function parseAvatarDefinition(text: string): ParsedAvatarDefinition {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (typeof raw !== 'object' || raw === null || (raw as Record<string, unknown>).format !== AVATAR_DEFINITION_FORMAT) {
+    throw new Error('File is not an avatar definition')
+  }
+
+  const fields = raw as Record<string, unknown>
+  const schemaVersion = fields.schemaVersion
+  if (typeof schemaVersion !== 'number' || schemaVersion > AVATAR_DEFINITION_VERSION) {
+    throw new Error(`Unsupported definition version ${String(schemaVersion)}; this editor reads up to ${AVATAR_DEFINITION_VERSION}`)
+  }
+
+  const issues: string[] = []
+  const settings = parseAvatarSettings(fields.settings)
+  issues.push(...settings.issues.map((issue) => `settings.${issue.field}: ${issue.message}`))
+
+  const lighting = validateLightingSettings(
+    typeof fields.lighting === 'object' && fields.lighting !== null ? fields.lighting as Record<string, unknown> : {}
+  )
+  issues.push(...lighting.issues.map((issue) => `lighting.${issue}`))
+
+  return {
+    definition: {
+      name: typeof fields.name === 'string' && fields.name.trim() ? fields.name.trim() : 'Imported Avatar',
+      settings: settings.settings,
+      lighting: lighting.lighting,
+      customModel: parseCustomModel(fields.customModel, issues),
+      texture: parseTextureParams(fields.texture, issues)
+    },
+    issues
+  }
+}
+
+const formatValue = (value: unknown) => Array.isArray(value) ? value.join(', ') : String(value)
+
+// What an import would change, field by field, for the preview before applying it
+export function diffAvatarDefinitions(current: AvatarDefinitionContent, incoming: AvatarDefinitionContent): DefinitionChange[] {
+  const changes: DefinitionChange[] = []
+  const compare = (section: DefinitionChange['section'], label: string, from: unknown, to: unknown) => {
+    if (formatValue(from) !== formatValue(to)) {
+      changes.push({ section, label, from: formatValue(from), to: formatValue(to) })
+    }
+  }
+
+  compare('Avatar', 'Name', current.name, incoming.name)
+  for (const change of diffAvatarSettings(current.settings, incoming.settings)) {
+    compare('Settings', change.label, change.from, change.to)
+  }
+  for (const key of Object.keys(incoming.lighting) as (keyof LightingSettings)[]) {
+    compare('Lighting', key, current.lighting[key], incoming.lighting[key])
+  }
+  compare('Model', 'Custom model', current.customModel?.name ?? 'None', incoming.customModel?.name ?? 'None')
+  for (const key of Object.keys(incoming.texture) as (keyof TextureParams)[]) {
+    compare('Texture', key, current.texture[key], incoming.texture[key])
+  }
+  return changes
+}
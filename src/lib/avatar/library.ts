@@ -0,0 +1,178 @@
+import { blink } from '../../blink/client'
+import { parseAvatarSettings, type AvatarSettings, type SettingsIssue } from './settings'
+
+// Row in the `avatars` table
+export interface AvatarRecord {
+  id: string
+  user_id: string
+  name: string
+  // Serialized AvatarSettings, see serializeAvatarSettings
+  settings: string
+  thumbnail_url: string | null
+  // JSON array of tag strings
+  tags?: string | null
+  folder?: string | null
+  // Stored as 0/1
+  is_favorite?: number | string | null
+  // Uploaded GLB the avatar was saved with, if any
+  custom_model_url?: string | null
+  custom_model_name?: string | null
+  // Set while the avatar is in the trash
+  deleted_at?: string | null
+  created_at: string
+  updated_at?: string | null
+}
+
+export interface SavedAvatar {
+  id: string
+  name: string
+  settings: AvatarSettings
+  thumbnailUrl?: string
+  tags: string[]
+  // Null for avatars that aren't in a folder
+  folder: string | null
+  isFavorite: boolean
+  customModel: { url: string; name: string } | null
+  // Null unless the avatar is in the trash
+  deletedAt: string | null
+  createdAt: string
+  updatedAt: string
+  // Problems found while loading the stored settings; the avatar still opens with repaired values
+  issues: SettingsIssue[]
+}
+
+export type AvatarSortField = 'created_at' | 'updated_at'
+
+export interface AvatarLibraryQuery {
+  userId: string
+  search: string
+  sortBy: AvatarSortField
+  direction: 'asc' | 'desc'
+  // Undefined matches every folder, null only avatars outside any folder
+  folder?: string | null
+  tag?: string
+  favoritesOnly?: boolean
+}
+
+// Organization fields a bulk update can change; omitted fields are left alone
+export interface AvatarOrganizationUpdate {
+  id: string
+  tags?: string[]
+  folder?: string | null
+  isFavorite?: boolean
+}
+
+export interface AvatarPage {
+  avatars: SavedAvatar[]
+  // Pass back to listAvatarPage for the next page; null on the last one
+  nextCursor: string | null
+}
+
+export const avatarsTable = () => blink.db.table<AvatarRecord>('avatars')
+
+const MAX_TAG_LENGTH = 32
+
+function parseTags(stored: string | null | undefined): string[] {
+  if (!stored) return []
+  try {
+    const tags: unknown = JSON.parse(stored)
+    return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+// Trimmed and length-limited; quotes would break the JSON `like` match used for filtering
+export function normalizeTag(tag: string): string {
+  return tag.replace(/["%_*]/g, '').trim().slice(0, MAX_TAG_LENGTH)
+}
+
+export function normalizeFolder(folder: string): string | null {
+  return folder.trim() || null
+}
+
+export function toSavedAvatar(record: AvatarRecord): SavedAvatar {
+  // Older records are migrated and bad values clamped; only the issues list remembers it
+  const { settings, issues } = parseAvatarSettings(record.settings)
+  return {
+    id: record.id,
+    name: record.name,
+    settings,
+    thumbnailUrl: record.thumbnail_url || undefined,
+    tags: parseTags(record.tags),
+    folder: record.folder || null,
+    isFavorite: Number(record.is_favorite) === 1,
+    customModel: record.custom_model_url ? { url: record.custom_model_url, name: record.custom_model_name || 'Custom model' } : null,
+    deletedAt: record.deleted_at || null,
+    createdAt: record.created_at,
+    // Records saved before updated_at was written count as untouched since creation
+    updatedAt: record.updated_at || record.created_at,
+    issues
+  }
+}
+
+/**
+ * One page of a user's avatars. The cursor is the sort column of the last row, so
+ * pages stay stable while avatars are added or deleted between requests. Rows with
+ * an identical timestamp at a page boundary would be skipped; saves are far enough
+ * apart that this doesn't happen in practice.
+ */
+export async function listAvatarPage(query: AvatarLibraryQuery, cursor: string | null, pageSize: number): Promise<AvatarPage> {
+  // Trashed avatars only show up in the trash, see trash.ts
+  const where: Record<string, unknown> = { user_id: query.userId, deleted_at: { is: null } }
+  // LIKE wildcards typed by the user are matched literally by dropping them
+  const search = query.search.trim().replace(/[%_*]/g, '')
+  if (search) where.name = { ilike: `%${search}%` }
+  if (query.folder !== undefined) where.folder = query.folder === null ? { is: null } : query.folder
+  if (query.tag) where.tags = { like: `%${JSON.stringify(query.tag)}%` }
+  if (query.favoritesOnly) where.is_favorite = 1
+  if (cursor) where[query.sortBy] = query.direction === 'desc' ? { lt: cursor } : { gt: cursor }
+
+  // One extra row tells us whether there is a next page
+  const records = await avatarsTable().list({
+    where,
+    orderBy: { [query.sortBy]: query.direction },
+    limit: pageSize + 1
+  })
+
+  const page = records.slice(0, pageSize)
+  const last = page[page.length - 1]
+  return {
+    avatars: page.map(toSavedAvatar),
+    nextCursor: records.length > pageSize && last ? (last[query.sortBy] || last.created_at) : null
+  }
+}
+
+// The library query applied to avatars already in memory, for when the backend is unreachable
+export function filterAvatarsLocally(avatars: SavedAvatar[], query: Omit<AvatarLibraryQuery, 'userId'>): SavedAvatar[] {
+  const search = query.search.trim().toLowerCase()
+  const sortKey = query.sortBy === 'updated_at' ? 'updatedAt' : 'createdAt'
+  return avatars
+    .filter(avatar => !avatar.deletedAt)
+    .filter(avatar => !search || avatar.name.toLowerCase().includes(search))
+    .filter(avatar => query.folder === undefined || avatar.folder === query.folder)
+    .filter(avatar => !query.tag || avatar.tags.includes(query.tag))
+    .filter(avatar => !query.favoritesOnly || avatar.isFavorite)
+    .sort((a, b) => query.direction === 'desc' ? b[sortKey].localeCompare(a[sortKey]) : a[sortKey].localeCompare(b[sortKey]))
+}
+
+export async function organizeAvatars(updates: AvatarOrganizationUpdate[]) {
+  if (updates.length === 0) return
+  await avatarsTable().updateMany(updates.map(({ id, tags, folder, isFavorite }) => ({
+    id,
+    ...(tags !== undefined ? { tags: JSON.stringify(tags) } : {}),
+    ...(folder !== undefined ? { folder } : {}),
+    ...(isFavorite !== undefined ? { is_favorite: isFavorite ? 1 : 0 } : {})
+  })))
+}
+
+// Every folder and tag in use, sorted, for filter menus and suggestions
+export function collectOrganization(avatars: SavedAvatar[]): { folders: string[]; tags: string[] } {
+  const folders = new Set<string>()
+  const tags = new Set<string>()
+  for (const avatar of avatars) {
+    if (avatar.folder) folders.add(avatar.folder)
+    avatar.tags.forEach(tag => tags.add(tag))
+  }
+  return { folders: [...folders].sort(), tags: [...tags].sort() }
+}
@@ -0,0 +1,82 @@
+import type { AvatarRecord } from './library'
+import type { RecordRevisionOptions } from './revisions'
+
+// A save's revision, held until the save reaches the server
+export interface QueuedRevision extends RecordRevisionOptions {
+  // Also the id of the stored revision, so writing one never takes a later one off the
+  // queue and one written before a failed sync isn't written twice
+  id: string
+  // When the save was made here, kept as the revision's created_at
+  savedAt: string
+}
+
+/**
+ * Local copy of one avatar. The editor writes here first; the sync engine (sync.ts)
+ * pushes dirty entries to the `avatars` table and refreshes clean ones from it.
+ */
+export interface LocalAvatarEntry {
+  id: string
+  userId: string
+  record: AvatarRecord
+  // Server `updated_at` this copy was last in step with; null until it has been pushed or
+  // pulled once, and then never checked for conflicts
+  baseUpdatedAt: string | null
+  // Local edits the server hasn't seen yet
+  dirty: boolean
+  // Server version that changed since `baseUpdatedAt` while this copy was dirty
+  conflict: AvatarRecord | null
+  // Revisions of saves made here that haven't been written yet, oldest first. Missing on
+  // entries stored before revisions were queued
+  pendingRevisions?: QueuedRevision[]
+}
+
+const DB_NAME = 'hd-avatar-creator'
+const DB_VERSION = 1
+const STORE = 'avatars'
+
+let opening: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  opening ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+      store.createIndex('userId', 'userId')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      // Let the next call try again, e.g. after the user allowed storage
+      opening = null
+      reject(request.error)
+    }
+  })
+  return opening
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)))
+}
+
+export function getLocalAvatar(id: string): Promise<LocalAvatarEntry | undefined> {
+  return withStore('readonly', store => store.get(id) as IDBRequest<LocalAvatarEntry | undefined>)
+}
+
+export function listLocalAvatars(userId: string): Promise<LocalAvatarEntry[]> {
+  return withStore('readonly', store => store.index('userId').getAll(userId) as IDBRequest<LocalAvatarEntry[]>)
+}
+
+export async function putLocalAvatar(entry: LocalAvatarEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry))
+}
+
+export async function deleteLocalAvatar(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
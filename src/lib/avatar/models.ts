@@ -0,0 +1,20 @@
+// Uploaded GLB models live under the uploader's own prefix, as thumbnails do
+export const modelStoragePath = (userId: string, fileName: string) => `models/${userId}/${fileName}`
+
+/**
+ * Storage path behind a model URL, or null unless the file sits under `userId`'s own
+ * prefix. Models uploaded by someone else, or before uploads were kept per user at
+ * `models/<file name>`, can be shared with other accounts and are never removed on
+ * this user's behalf.
+ */
+export function ownModelStoragePath(userId: string, url: string): string | null {
+  let pathname: string
+  try {
+    pathname = decodeURIComponent(new URL(url).pathname)
+  } catch {
+    return null
+  }
+  const prefix = `/${modelStoragePath(userId, '')}`
+  const index = pathname.indexOf(prefix)
+  return index === -1 ? null : pathname.slice(index + 1)
+}
@@ -0,0 +1,190 @@
+import * as THREE from 'three'
+import { blink } from '../../blink/client'
+import { findSkeletonBones, type HumanBoneName, type HumanoidBones } from '../export/humanoid'
+import { isParametricBody } from './body'
+
+// Bone rotations in degrees (XYZ Euler order) relative to the rest A-pose; bones left out stay at rest
+export type PoseRotations = Partial<Record<HumanBoneName, [number, number, number]>>
+
+export interface AvatarPose {
+  id: string
+  name: string
+  rotations: PoseRotations
+  // Built-in poses ship with the app and can't be renamed or deleted
+  builtIn: boolean
+}
+
+// Row in the `avatar_poses` table; one per custom pose a user saves
+export interface AvatarPoseRecord {
+  id: string
+  user_id: string
+  name: string
+  // JSON-encoded PoseRotations
+  rotations: string
+  created_at: string
+}
+
+export const REST_POSE_ID = 'a-pose'
+
+// The parametric body's bones all start unrotated with the arms 45° down, so these
+// are plain joint angles: +z lifts the left arm, -x swings a leg forward, +x bends a knee
+export const BUILT_IN_POSES: AvatarPose[] = [
+  {
+    id: 't-pose',
+    name: 'T-Pose',
+    builtIn: true,
+    rotations: {
+      leftUpperArm: [0, 0, 45],
+      rightUpperArm: [0, 0, -45]
+    }
+  },
+  { id: REST_POSE_ID, name: 'A-Pose', builtIn: true, rotations: {} },
+  {
+    id: 'relaxed',
+    name: 'Relaxed',
+    builtIn: true,
+    rotations: {
+      neck: [4, 0, 0],
+      leftUpperArm: [0, 0, -36],
+      leftLowerArm: [0, -12, 4],
+      leftHand: [0, -10, 0],
+      rightUpperArm: [0, 0, 36],
+      rightLowerArm: [0, 12, -4],
+      rightHand: [0, 10, 0],
+      leftUpperLeg: [0, 0, -2],
+      rightUpperLeg: [0, 0, 2]
+    }
+  },
+  {
+    id: 'contrapposto',
+    name: 'Contrapposto',
+    builtIn: true,
+    rotations: {
+      hips: [0, -6, -5],
+      spine: [0, 2, 3],
+      chest: [0, 3, 4],
+      upperChest: [0, 0, 2],
+      neck: [0, 4, -2],
+      head: [-3, 8, -4],
+      leftUpperArm: [0, 0, -38],
+      leftLowerArm: [0, -18, 0],
+      rightUpperArm: [0, 0, 34],
+      rightLowerArm: [0, 10, 0],
+      leftUpperLeg: [-10, 0, 3],
+      leftLowerLeg: [24, 0, 0],
+      leftFoot: [-5, -8, 0],
+      rightUpperLeg: [0, 0, 5]
+    }
+  },
+  {
+    id: 'hero',
+    name: 'Hero',
+    builtIn: true,
+    rotations: {
+      spine: [-3, 0, 0],
+      chest: [-4, 0, 0],
+      neck: [-4, 0, 0],
+      head: [-6, 10, 0],
+      leftUpperArm: [0, 15, 5],
+      leftLowerArm: [0, 0, -100],
+      leftHand: [0, 0, 25],
+      rightUpperArm: [0, -15, -5],
+      rightLowerArm: [0, 0, 100],
+      rightHand: [0, 0, -25],
+      leftUpperLeg: [0, 0, 9],
+      leftFoot: [0, -8, 0],
+      rightUpperLeg: [0, 0, -9],
+      rightFoot: [0, 8, 0]
+    }
+  }
+]
+
+const posesTable = () => blink.db.table<AvatarPoseRecord>('avatar_poses')
+
+function toPose(record: AvatarPoseRecord): AvatarPose {
+  let rotations: PoseRotations = {}
+  try {
+    rotations = JSON.parse(record.rotations)
+  } catch {
+    console.warn(`Pose ${record.id} has unreadable rotations and is shown at rest`)
+  }
+  return { id: record.id, name: record.name, rotations, builtIn: false }
+}
+
+export function findPose(poses: AvatarPose[], id: string | null): AvatarPose | null {
+  return poses.find((pose) => pose.id === id) ?? null
+}
+
+// Oldest first, so new poses appear at the end of the list
+export async function listPoses(userId: string): Promise<AvatarPose[]> {
+  const records = await posesTable().list({
+    where: { user_id: userId },
+    orderBy: { created_at: 'asc' }
+  })
+  return records.map(toPose)
+}
+
+export async function savePose(userId: string, name: string, rotations: PoseRotations): Promise<AvatarPose> {
+  const record = await posesTable().create({
+    id: `pose_${Date.now()}`,
+    user_id: userId,
+    name,
+    rotations: JSON.stringify(rotations)
+  })
+  return toPose(record)
+}
+
+export async function deletePose(id: string) {
+  await posesTable().delete(id)
+}
+
+const euler = new THREE.Euler()
+
+/**
+ * Rotate the parametric body's bones into `rotations`; bones it doesn't mention go
+ * back to rest. Only meaningful for the parametric body, whose rest rotations are
+ * all identity — imported models have their own bone axes.
+ */
+export function applyPose(bones: HumanoidBones, rotations: PoseRotations) {
+  for (const [name, bone] of Object.entries(bones) as [HumanBoneName, THREE.Object3D][]) {
+    const angles = rotations[name]
+    if (angles) {
+      euler.set(...angles.map(THREE.MathUtils.degToRad) as [number, number, number])
+      bone.quaternion.setFromEuler(euler)
+    } else {
+      bone.quaternion.identity()
+    }
+  }
+}
+
+// The bones' current rotations, rounded to a tenth of a degree, leaving out bones at rest
+export function capturePose(bones: HumanoidBones): PoseRotations {
+  const rotations: PoseRotations = {}
+  for (const [name, bone] of Object.entries(bones) as [HumanBoneName, THREE.Object3D][]) {
+    euler.setFromQuaternion(bone.quaternion, 'XYZ')
+    const angles = [euler.x, euler.y, euler.z].map((angle) => Math.round(THREE.MathUtils.radToDeg(angle) * 10) / 10)
+    if (angles.some((angle) => angle !== 0)) {
+      rotations[name] = angles as [number, number, number]
+    }
+  }
+  return rotations
+}
+
+/**
+ * Pose the parametric body under `root`, either the live avatar or an export copy.
+ * Returns a callback that puts the previous rotations back; imported models are
+ * left alone.
+ */
+export function poseAvatar(root: THREE.Object3D, rotations: PoseRotations): () => void {
+  if (!isParametricBody(root)) return () => {}
+
+  const bones = findSkeletonBones(root)
+  const previous = Object.values(bones).map((bone) => [bone, bone.quaternion.clone()] as const)
+  applyPose(bones, rotations)
+  root.updateMatrixWorld(true)
+
+  return () => {
+    previous.forEach(([bone, quaternion]) => bone.quaternion.copy(quaternion))
+    root.updateMatrixWorld(true)
+  }
+}
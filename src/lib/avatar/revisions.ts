@@ -0,0 +1,112 @@
+import { blink } from '../../blink/client'
+import { parseAvatarSettings, serializeAvatarSettings, type AvatarSettings, type SettingsIssue } from './settings'
+
+// Row in the `avatar_revisions` table; one per save, only ever renumbered when two saves race
+export interface AvatarRevisionRecord {
+  id: string
+  avatar_id: string
+  user_id: string
+  // 1 for the first save of an avatar, counting up from there
+  revision: number
+  name: string
+  // Serialized AvatarSettings, see serializeAvatarSettings
+  settings: string
+  // Revision this one was restored from, null for ordinary saves
+  restored_from: number | null
+  created_at: string
+}
+
+export interface AvatarRevision {
+  id: string
+  avatarId: string
+  revision: number
+  name: string
+  settings: AvatarSettings
+  restoredFrom: number | null
+  createdAt: string
+  issues: SettingsIssue[]
+}
+
+export interface RecordRevisionOptions {
+  userId: string
+  avatarId: string
+  name: string
+  settings: AvatarSettings
+  restoredFrom?: number | null
+  // Set when writing a queued save: its id makes writing it again a no-op, and it keeps
+  // the time it was saved rather than the time it reached the server
+  id?: string
+  createdAt?: string
+}
+
+const revisionsTable = () => blink.db.table<AvatarRevisionRecord>('avatar_revisions')
+
+function toRevision(record: AvatarRevisionRecord): AvatarRevision {
+  const { settings, issues } = parseAvatarSettings(record.settings)
+  return {
+    id: record.id,
+    avatarId: record.avatar_id,
+    revision: record.revision,
+    name: record.name,
+    settings,
+    restoredFrom: record.restored_from,
+    createdAt: record.created_at,
+    issues
+  }
+}
+
+// Ids carry a random part, so two saves in the same millisecond (two tabs, two devices) can't share one
+export const newRevisionId = () => `revision_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+
+// Tries at taking the next revision number before giving up on a busy avatar
+const NUMBERING_ATTEMPTS = 5
+
+async function headRevision(avatarId: string): Promise<number> {
+  const [head] = await revisionsTable().list({
+    where: { avatar_id: avatarId },
+    orderBy: { revision: 'desc' },
+    limit: 1
+  })
+  return head?.revision ?? 0
+}
+
+/**
+ * Append the avatar's current state as its new head revision. Two writers can read
+ * the same head and take the same number; the row with the lower id keeps it and
+ * the other moves on to the next free number.
+ */
+export async function recordRevision(options: RecordRevisionOptions): Promise<AvatarRevision> {
+  let record = (options.id ? await revisionsTable().get(options.id) : null) ?? await revisionsTable().create({
+    id: options.id ?? newRevisionId(),
+    avatar_id: options.avatarId,
+    user_id: options.userId,
+    revision: (await headRevision(options.avatarId)) + 1,
+    name: options.name,
+    settings: serializeAvatarSettings(options.settings),
+    restored_from: options.restoredFrom ?? null,
+    ...(options.createdAt ? { created_at: options.createdAt } : {})
+  })
+
+  for (let attempt = 1; ; attempt++) {
+    const taken = await revisionsTable().list({ where: { avatar_id: options.avatarId, revision: record.revision } })
+    if (taken.every(other => other.id >= record.id)) break
+    if (attempt === NUMBERING_ATTEMPTS) {
+      throw new Error(`Could not number the new revision of ${options.avatarId}`)
+    }
+    record = await revisionsTable().update(record.id, { revision: (await headRevision(options.avatarId)) + 1 })
+  }
+  return toRevision(record)
+}
+
+// Newest first
+export async function listRevisions(avatarId: string): Promise<AvatarRevision[]> {
+  const records = await revisionsTable().list({
+    where: { avatar_id: avatarId },
+    orderBy: { revision: 'desc' }
+  })
+  return records.map(toRevision)
+}
+
+export async function deleteRevisions(avatarId: string) {
+  await revisionsTable().deleteMany({ where: { avatar_id: avatarId } })
+}
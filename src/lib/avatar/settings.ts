@@ -0,0 +1,256 @@
+export type AvatarGender = 'male' | 'female' | 'non-binary'
+
+export interface AvatarSettings {
+  gender: AvatarGender
+  height: number
+  muscle: number
+  bodyFat: number
+  shoulderWidth: number
+  waistSize: number
+  skinTone: number
+  facialStructure: number
+  eyeSize: number
+  noseSize: number
+  mouthSize: number
+  jawWidth: number
+  cheekbones: number
+  hairStyle: number
+  hairColor: number
+}
+
+export type NumericSettingKey = Exclude<keyof AvatarSettings, 'gender'>
+
+// Bump together with a new entry in MIGRATIONS whenever the stored shape changes
+export const AVATAR_SETTINGS_VERSION = 2
+
+export const AVATAR_GENDERS: AvatarGender[] = ['male', 'female', 'non-binary']
+
+export const DEFAULT_AVATAR_SETTINGS: AvatarSettings = {
+  gender: 'male',
+  height: 180,
+  muscle: 50,
+  bodyFat: 20,
+  shoulderWidth: 50,
+  waistSize: 50,
+  skinTone: 50,
+  facialStructure: 50,
+  eyeSize: 50,
+  noseSize: 50,
+  mouthSize: 50,
+  jawWidth: 50,
+  cheekbones: 50,
+  hairStyle: 1,
+  hairColor: 50
+}
+
+// Editor slider ranges; height is in centimetres and hairStyle picks one of four styles.
+// Height covers every body and avatar preset, the shortest of which is 155cm
+export const SETTING_RANGES: Record<NumericSettingKey, { min: number; max: number; step: number }> = {
+  height: { min: 150, max: 210, step: 1 },
+  muscle: { min: 0, max: 100, step: 1 },
+  bodyFat: { min: 5, max: 40, step: 1 },
+  shoulderWidth: { min: 0, max: 100, step: 1 },
+  waistSize: { min: 0, max: 100, step: 1 },
+  skinTone: { min: 0, max: 100, step: 1 },
+  facialStructure: { min: 0, max: 100, step: 1 },
+  eyeSize: { min: 0, max: 100, step: 1 },
+  noseSize: { min: 0, max: 100, step: 1 },
+  mouthSize: { min: 0, max: 100, step: 1 },
+  jawWidth: { min: 0, max: 100, step: 1 },
+  cheekbones: { min: 0, max: 100, step: 1 },
+  hairStyle: { min: 1, max: 4, step: 1 },
+  hairColor: { min: 0, max: 100, step: 1 }
+}
+
+// Display names, matching the editor's slider labels
+export const SETTING_LABELS: Record<keyof AvatarSettings, string> = {
+  gender: 'Gender',
+  height: 'Height',
+  muscle: 'Muscle Definition',
+  bodyFat: 'Body Fat',
+  shoulderWidth: 'Shoulder Width',
+  waistSize: 'Waist Size',
+  skinTone: 'Skin Tone',
+  facialStructure: 'Facial Structure',
+  eyeSize: 'Eye Size',
+  noseSize: 'Nose Size',
+  mouthSize: 'Mouth Size',
+  jawWidth: 'Jaw Width',
+  cheekbones: 'Cheekbones',
+  hairStyle: 'Hair Style',
+  hairColor: 'Hair Color'
+}
+
+export interface LightingSettings {
+  ambientIntensity: number
+  directionalIntensity: number
+  directionalPosition: [number, number, number]
+  environmentIntensity: number
+  shadows: boolean
+}
+
+export const DEFAULT_LIGHTING_SETTINGS: LightingSettings = {
+  ambientIntensity: 0.5,
+  directionalIntensity: 1.0,
+  directionalPosition: [2, 4, 2],
+  environmentIntensity: 0.8,
+  shadows: true
+}
+
+// Lighting slider ranges from LightingControls; directionalPosition is per axis (x, y, z)
+const LIGHTING_RANGES = {
+  ambientIntensity: { min: 0, max: 1 },
+  directionalIntensity: { min: 0, max: 2 },
+  environmentIntensity: { min: 0, max: 1.5 },
+  directionalPosition: [{ min: -5, max: 5 }, { min: 0, max: 8 }, { min: -5, max: 5 }]
+}
+
+export interface SettingsIssue {
+  // Setting that was repaired, or 'record' when the whole payload was unusable
+  field: keyof AvatarSettings | 'record'
+  message: string
+}
+
+export interface ParsedAvatarSettings {
+  settings: AvatarSettings
+  // Version the record was stored with; 0 for records saved before versioning
+  version: number
+  issues: SettingsIssue[]
+}
+
+type RawSettings = Record<string, unknown>
+
+// MIGRATIONS[n] upgrades a version n record to version n + 1
+const MIGRATIONS: ((raw: RawSettings) => RawSettings)[] = [
+  // Unversioned records are the bare settings object, which version 1 wraps with a version number
+  (raw) => raw,
+  // Version 2 added jaw width and cheekbones; older faces keep the shape they were made with
+  (raw) => ({ jawWidth: DEFAULT_AVATAR_SETTINGS.jawWidth, cheekbones: DEFAULT_AVATAR_SETTINGS.cheekbones, ...raw })
+]
+
+function migrate(raw: RawSettings, from: number): RawSettings {
+  let current = raw
+  for (let version = from; version < AVATAR_SETTINGS_VERSION; version++) {
+    current = MIGRATIONS[version](current)
+  }
+  return current
+}
+
+/**
+ * Fill in missing settings from the defaults and clamp numbers to their slider
+ * ranges. Every value that had to change is reported, so callers can tell a
+ * clean record from a repaired one.
+ */
+export function validateAvatarSettings(raw: RawSettings): { settings: AvatarSettings; issues: SettingsIssue[] } {
+  const settings: AvatarSettings = { ...DEFAULT_AVATAR_SETTINGS }
+  const issues: SettingsIssue[] = []
+
+  if (AVATAR_GENDERS.includes(raw.gender as AvatarGender)) {
+    settings.gender = raw.gender as AvatarGender
+  } else {
+    issues.push({ field: 'gender', message: raw.gender === undefined ? 'Missing, reset to default' : `Unknown value "${String(raw.gender)}"` })
+  }
+
+  for (const [key, range] of Object.entries(SETTING_RANGES) as [NumericSettingKey, typeof SETTING_RANGES[NumericSettingKey]][]) {
+    const value = typeof raw[key] === 'string' ? Number(raw[key]) : raw[key]
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ field: key, message: raw[key] === undefined ? 'Missing, reset to default' : 'Not a number, reset to default' })
+      continue
+    }
+
+    const clamped = Math.min(range.max, Math.max(range.min, Math.round(value / range.step) * range.step))
+    if (value < range.min || value > range.max) {
+      issues.push({ field: key, message: `${value} is outside ${range.min}–${range.max}, set to ${clamped}` })
+    } else if (clamped !== value) {
+      issues.push({ field: key, message: `${value} rounded to ${clamped}` })
+    }
+    settings[key] = clamped
+  }
+
+  return { settings, issues }
+}
+
+// Same idea as validateAvatarSettings, for lighting read from files or links
+export function validateLightingSettings(raw: Record<string, unknown>): { lighting: LightingSettings; issues: string[] } {
+  const lighting: LightingSettings = { ...DEFAULT_LIGHTING_SETTINGS, directionalPosition: [...DEFAULT_LIGHTING_SETTINGS.directionalPosition] }
+  const issues: string[] = []
+  const clamp = (value: unknown, range: { min: number; max: number }, name: string, fallback: number) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${name}: ${value === undefined ? 'missing' : 'not a number'}, reset to default`)
+      return fallback
+    }
+    const clamped = Math.min(range.max, Math.max(range.min, value))
+    if (clamped !== value) issues.push(`${name}: ${value} is outside ${range.min}–${range.max}, set to ${clamped}`)
+    return clamped
+  }
+
+  for (const key of ['ambientIntensity', 'directionalIntensity', 'environmentIntensity'] as const) {
+    lighting[key] = clamp(raw[key], LIGHTING_RANGES[key], key, lighting[key])
+  }
+
+  const position = raw.directionalPosition
+  if (Array.isArray(position) && position.length === 3) {
+    lighting.directionalPosition = LIGHTING_RANGES.directionalPosition.map((range, axis) =>
+      clamp(position[axis], range, `directionalPosition[${axis}]`, lighting.directionalPosition[axis])
+    ) as [number, number, number]
+  } else {
+    issues.push('directionalPosition: expected [x, y, z], reset to default')
+  }
+
+  if (typeof raw.shadows === 'boolean') {
+    lighting.shadows = raw.shadows
+  } else {
+    issues.push('shadows: expected true or false, reset to default')
+  }
+
+  return { lighting, issues }
+}
+
+/**
+ * Read a stored settings payload (a JSON string or an already parsed object),
+ * migrate it to the current version and validate it. Never throws: unreadable
+ * records come back as defaults with a 'record' issue.
+ */
+export function parseAvatarSettings(stored: unknown): ParsedAvatarSettings {
+  let raw: unknown = stored
+  if (typeof stored === 'string') {
+    try {
+      raw = JSON.parse(stored)
+    } catch {
+      return { settings: { ...DEFAULT_AVATAR_SETTINGS }, version: 0, issues: [{ field: 'record', message: 'Settings are not valid JSON' }] }
+    }
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { settings: { ...DEFAULT_AVATAR_SETTINGS }, version: 0, issues: [{ field: 'record', message: 'Settings are not an object' }] }
+  }
+
+  const { version: storedVersion, ...fields } = raw as RawSettings
+  const version = typeof storedVersion === 'number' && Number.isInteger(storedVersion) && storedVersion >= 0 ? storedVersion : 0
+  const issues: SettingsIssue[] = []
+
+  if (version > AVATAR_SETTINGS_VERSION) {
+    issues.push({ field: 'record', message: `Saved by a newer version of the editor (v${version})` })
+  }
+
+  const validated = validateAvatarSettings(migrate(fields, Math.min(version, AVATAR_SETTINGS_VERSION)))
+  return { settings: validated.settings, version, issues: [...issues, ...validated.issues] }
+}
+
+export function serializeAvatarSettings(settings: AvatarSettings): string {
+  return JSON.stringify({ version: AVATAR_SETTINGS_VERSION, ...settings })
+}
+
+export interface SettingChange {
+  field: keyof AvatarSettings
+  label: string
+  from: AvatarSettings[keyof AvatarSettings]
+  to: AvatarSettings[keyof AvatarSettings]
+}
+
+// Settings that differ between two avatars, in slider order
+export function diffAvatarSettings(from: AvatarSettings, to: AvatarSettings): SettingChange[] {
+  return (Object.keys(SETTING_LABELS) as (keyof AvatarSettings)[])
+    .filter((field) => from[field] !== to[field])
+    .map((field) => ({ field, label: SETTING_LABELS[field], from: from[field], to: to[field] }))
+}
@@ -0,0 +1,143 @@
+import { AVATAR_GENDERS, DEFAULT_AVATAR_SETTINGS, SETTING_RANGES, validateAvatarSettings, type AvatarSettings, type NumericSettingKey } from './settings'
+
+export interface SharedLighting {
+  ambientIntensity: number
+  directionalIntensity: number
+  directionalPosition: [number, number, number]
+  environmentIntensity: number
+  shadows: boolean
+}
+
+export interface SharedAvatar {
+  avatar: AvatarSettings
+  lighting: SharedLighting
+}
+
+export const SHARE_LINK_VERSION = 3
+export const SHARE_FRAGMENT_KEY = 'avatar'
+
+// Byte order of the numeric settings; append only, and bump SHARE_LINK_VERSION when appending
+const AVATAR_FIELDS: NumericSettingKey[] = [
+  'height', 'muscle', 'bodyFat', 'shoulderWidth', 'waistSize', 'skinTone',
+  'facialStructure', 'eyeSize', 'noseSize', 'mouthSize', 'hairStyle', 'hairColor',
+  'jawWidth', 'cheekbones'
+]
+
+// How many of AVATAR_FIELDS each link version carries; missing ones decode as defaults
+const AVATAR_FIELD_COUNTS: Record<number, number> = { 1: 12, 2: 14, 3: 14 }
+
+// Fields are stored as offsets from their slider minimum; links before version 3 were
+// made while the height slider still started at 170cm
+const fieldMin = (key: NumericSettingKey, version: number) =>
+  key === 'height' && version < 3 ? 170 : SETTING_RANGES[key].min
+
+// Lighting slider ranges, stored as offset × scale in one byte each
+const LIGHTING_FIELDS: { read: (lighting: SharedLighting) => number; min: number; max: number; scale: number }[] = [
+  { read: (lighting) => lighting.ambientIntensity, min: 0, max: 1, scale: 100 },
+  { read: (lighting) => lighting.directionalIntensity, min: 0, max: 2, scale: 100 },
+  { read: (lighting) => lighting.environmentIntensity, min: 0, max: 1.5, scale: 100 },
+  { read: (lighting) => lighting.directionalPosition[0], min: -5, max: 5, scale: 10 },
+  { read: (lighting) => lighting.directionalPosition[1], min: 0, max: 8, scale: 10 },
+  { read: (lighting) => lighting.directionalPosition[2], min: -5, max: 5, scale: 10 }
+]
+
+// version, flags, avatar fields, lighting fields, then a two-byte checksum
+const payloadLength = (avatarFields: number) => 2 + avatarFields + LIGHTING_FIELDS.length
+const PAYLOAD_LENGTH = payloadLength(AVATAR_FIELDS.length)
+const SHADOWS_FLAG = 0b100
+
+// Fletcher-16: catches truncated or hand-edited links, not tampering
+function checksum(bytes: Uint8Array): number {
+  let sum1 = 0
+  let sum2 = 0
+  for (const byte of bytes) {
+    sum1 = (sum1 + byte) % 255
+    sum2 = (sum2 + sum1) % 255
+  }
+  return (sum2 << 8) | sum1
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Pack avatar and lighting settings into a URL-safe string of about 30 characters.
+ * Values are clamped to the editor's slider ranges first, so every setting fits a byte.
+ */
+export function encodeSharedAvatar({ avatar, lighting }: SharedAvatar): string {
+  const { settings } = validateAvatarSettings({ ...avatar })
+  const bytes = new Uint8Array(PAYLOAD_LENGTH + 2)
+
+  bytes[0] = SHARE_LINK_VERSION
+  bytes[1] = AVATAR_GENDERS.indexOf(settings.gender) | (lighting.shadows ? SHADOWS_FLAG : 0)
+  AVATAR_FIELDS.forEach((key, index) => {
+    bytes[2 + index] = settings[key] - SETTING_RANGES[key].min
+  })
+  LIGHTING_FIELDS.forEach((field, index) => {
+    const value = Math.min(field.max, Math.max(field.min, field.read(lighting)))
+    bytes[2 + AVATAR_FIELDS.length + index] = Math.round((value - field.min) * field.scale)
+  })
+
+  const sum = checksum(bytes.subarray(0, PAYLOAD_LENGTH))
+  bytes[PAYLOAD_LENGTH] = sum >> 8
+  bytes[PAYLOAD_LENGTH + 1] = sum & 0xff
+  return toBase64Url(bytes)
+}
+
+export function decodeSharedAvatar(encoded: string): SharedAvatar {
+  let bytes: Uint8Array
+  try {
+    bytes = fromBase64Url(encoded)
+  } catch {
+    throw new Error('This share link is not valid')
+  }
+
+  if (bytes.length > 0 && bytes[0] > SHARE_LINK_VERSION) {
+    throw new Error('This share link was made by a newer version of the editor')
+  }
+  const fieldCount = bytes.length > 0 ? AVATAR_FIELD_COUNTS[bytes[0]] : undefined
+  const length = fieldCount === undefined ? -1 : payloadLength(fieldCount)
+  if (fieldCount === undefined || bytes.length !== length + 2) {
+    throw new Error('This share link is not valid')
+  }
+  if (checksum(bytes.subarray(0, length)) !== ((bytes[length] << 8) | bytes[length + 1])) {
+    throw new Error('This share link is damaged; ask for it to be copied again')
+  }
+
+  const raw: Record<string, unknown> = { gender: AVATAR_GENDERS[bytes[1] & 0b11] }
+  AVATAR_FIELDS.forEach((key, index) => {
+    raw[key] = index < fieldCount ? bytes[2 + index] + fieldMin(key, bytes[0]) : DEFAULT_AVATAR_SETTINGS[key]
+  })
+  const lightingValues = LIGHTING_FIELDS.map((field, index) =>
+    Number(Math.min(field.max, bytes[2 + fieldCount + index] / field.scale + field.min).toFixed(2))
+  )
+
+  return {
+    avatar: validateAvatarSettings(raw).settings,
+    lighting: {
+      ambientIntensity: lightingValues[0],
+      directionalIntensity: lightingValues[1],
+      environmentIntensity: lightingValues[2],
+      directionalPosition: [lightingValues[3], lightingValues[4], lightingValues[5]],
+      shadows: (bytes[1] & SHADOWS_FLAG) !== 0
+    }
+  }
+}
+
+export function createShareUrl(shared: SharedAvatar): string {
+  const { origin, pathname, search } = window.location
+  return `${origin}${pathname}${search}#${SHARE_FRAGMENT_KEY}=${encodeSharedAvatar(shared)}`
+}
+
+// Encoded payload from a `#avatar=...` fragment, if the URL carries one
+export function readShareFragment(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  return params.get(SHARE_FRAGMENT_KEY)
+}
@@ -0,0 +1,195 @@
+import { avatarsTable, toSavedAvatar, type AvatarRecord, type SavedAvatar } from './library'
+import { newRevisionId, recordRevision, type RecordRevisionOptions } from './revisions'
+import {
+  deleteLocalAvatar,
+  getLocalAvatar,
+  listLocalAvatars,
+  putLocalAvatar,
+  type LocalAvatarEntry
+} from './local-store'
+
+export interface SyncResult {
+  pushed: number
+  // Local copies that changed because of the pull
+  pulled: number
+  // Avatars edited here and on another device since they were last in step
+  conflicts: number
+}
+
+// What the editor saves. Tags, folders, favourites and the trash are changed on the
+// server directly, so pushing a local copy must never overwrite them
+const EDITOR_FIELDS = ['name', 'settings', 'thumbnail_url', 'custom_model_url', 'custom_model_name', 'updated_at'] as const
+
+const PULL_PAGE_SIZE = 100
+
+function editorFields(record: AvatarRecord): Partial<AvatarRecord> {
+  return Object.fromEntries(EDITOR_FIELDS.map(field => [field, record[field] ?? null]))
+}
+
+// The backend couldn't be reached, as opposed to rejecting the request
+export function isOfflineError(error: unknown): boolean {
+  return !navigator.onLine || (error as { code?: string } | null)?.code === 'NETWORK_ERROR'
+}
+
+/**
+ * Store a save in IndexedDB and mark it for upload, queueing its revision alongside.
+ * Always succeeds while the browser has storage, whether or not the backend is reachable.
+ */
+export async function saveAvatarLocally(userId: string, record: AvatarRecord, revision?: RecordRevisionOptions): Promise<LocalAvatarEntry> {
+  const existing = await getLocalAvatar(record.id)
+  const pendingRevisions = existing?.pendingRevisions ?? []
+  const entry: LocalAvatarEntry = {
+    id: record.id,
+    userId,
+    // Keep server-owned fields (tags, folder, ...) the local copy already knows about
+    record: { ...existing?.record, ...record },
+    baseUpdatedAt: existing?.baseUpdatedAt ?? null,
+    dirty: true,
+    conflict: existing?.conflict ?? null,
+    pendingRevisions: revision ? [...pendingRevisions, { ...revision, id: newRevisionId(), savedAt: new Date().toISOString() }] : pendingRevisions
+  }
+  await putLocalAvatar(entry)
+  return entry
+}
+
+async function pushEntry(entry: LocalAvatarEntry): Promise<'pushed' | 'conflict'> {
+  const remote = await avatarsTable().get(entry.id)
+  // Someone else saved since our copy was last in step: don't overwrite their work. A
+  // copy that was never in step (the first save of an avatar on this device) has nothing
+  // to compare against and is pushed as the editor saved it
+  if (remote && entry.baseUpdatedAt !== null && (remote.updated_at ?? null) !== entry.baseUpdatedAt) {
+    const latest = await getLocalAvatar(entry.id)
+    await putLocalAvatar({ ...entry, pendingRevisions: latest?.pendingRevisions, conflict: remote })
+    return 'conflict'
+  }
+
+  if (remote) {
+    await avatarsTable().update(entry.id, editorFields(entry.record))
+  } else {
+    await avatarsTable().create(entry.record)
+  }
+  const stored = (await avatarsTable().get(entry.id)) ?? entry.record
+
+  // The user may have saved again while this upload was in flight; that save stays dirty
+  const latest = await getLocalAvatar(entry.id)
+  const changedMeanwhile = latest && latest.record.updated_at !== entry.record.updated_at
+  await putLocalAvatar({
+    ...entry,
+    record: changedMeanwhile ? latest.record : stored,
+    pendingRevisions: latest?.pendingRevisions,
+    baseUpdatedAt: stored.updated_at ?? null,
+    dirty: Boolean(changedMeanwhile),
+    conflict: null
+  })
+  return 'pushed'
+}
+
+// Write an avatar's queued revisions in order, each taken off the queue once it is stored
+async function writePendingRevisions(id: string) {
+  for (;;) {
+    const [next] = (await getLocalAvatar(id))?.pendingRevisions ?? []
+    if (!next) return
+    const { savedAt, ...revision } = next
+    await recordRevision({ ...revision, createdAt: savedAt })
+    // Saves may have queued more revisions while this one was written
+    const latest = await getLocalAvatar(id)
+    if (!latest) return
+    await putLocalAvatar({ ...latest, pendingRevisions: latest.pendingRevisions?.filter(queued => queued.id !== next.id) })
+  }
+}
+
+async function listRemoteAvatars(userId: string): Promise<AvatarRecord[]> {
+  const records: AvatarRecord[] = []
+  for (let offset = 0; ; offset += PULL_PAGE_SIZE) {
+    // Trashed avatars included, so the local copy knows about them too
+    const page = await avatarsTable().list({
+      where: { user_id: userId },
+      orderBy: { created_at: 'asc' },
+      limit: PULL_PAGE_SIZE,
+      offset
+    })
+    records.push(...page)
+    if (page.length < PULL_PAGE_SIZE) return records
+  }
+}
+
+/**
+ * Push dirty local saves and write their revisions, then mirror the server into the
+ * local store. Dirty copies are never replaced by a pull; if the server moved on
+ * underneath them they are flagged as conflicts and left for the user to resolve.
+ * Revisions wait until their save has been pushed or its conflict settled.
+ */
+export async function syncAvatars(userId: string): Promise<SyncResult> {
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0 }
+
+  for (const entry of await listLocalAvatars(userId)) {
+    if (!entry.dirty || entry.conflict) continue
+    try {
+      if ((await pushEntry(entry)) === 'pushed') {
+        result.pushed++
+      }
+    } catch (error) {
+      // Offline, nothing else will get through either. A save the server rejects stays
+      // dirty for the next sync without holding up the others
+      if (isOfflineError(error)) throw error
+      console.error(`Error pushing ${entry.id}:`, error)
+    }
+  }
+
+  for (const entry of await listLocalAvatars(userId)) {
+    if (entry.dirty || entry.conflict || !entry.pendingRevisions?.length) continue
+    // A revision the server rejects stays queued for the next sync rather than holding up the pull
+    await writePendingRevisions(entry.id).catch(error => console.error(`Error writing revisions of ${entry.id}:`, error))
+  }
+
+  const remotes = await listRemoteAvatars(userId)
+  const remoteIds = new Set(remotes.map(record => record.id))
+  const locals = new Map((await listLocalAvatars(userId)).map(entry => [entry.id, entry]))
+
+  for (const remote of remotes) {
+    const local = locals.get(remote.id)
+    if (local?.dirty || (local && JSON.stringify(local.record) === JSON.stringify(remote))) continue
+    await putLocalAvatar({ id: remote.id, userId, record: remote, baseUpdatedAt: remote.updated_at ?? null, dirty: false, conflict: null, pendingRevisions: local?.pendingRevisions })
+    result.pulled++
+  }
+
+  for (const local of locals.values()) {
+    if (local.conflict) result.conflicts++
+    // Purged on the server (or on another device) since we last saw it
+    if (!remoteIds.has(local.id) && !local.dirty && local.baseUpdatedAt !== null) {
+      await deleteLocalAvatar(local.id)
+      result.pulled++
+    }
+  }
+
+  return result
+}
+
+// Saved avatars as the editor last knew them, trash excluded, newest first
+export async function listLocalSavedAvatars(userId: string): Promise<SavedAvatar[]> {
+  return (await listLocalAvatars(userId))
+    .filter(entry => !entry.record.deleted_at)
+    .map(entry => toSavedAvatar(entry.record))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function listConflicts(userId: string): Promise<LocalAvatarEntry[]> {
+  return (await listLocalAvatars(userId)).filter(entry => entry.conflict)
+}
+
+/**
+ * Settle a conflict. 'local' keeps this device's save and pushes it over the server
+ * version on the next sync; 'remote' drops it in favour of the server version. Either
+ * way the save stays in the revision history, so a dropped save can still be restored.
+ */
+export async function resolveConflict(id: string, keep: 'local' | 'remote') {
+  const entry = await getLocalAvatar(id)
+  if (!entry?.conflict) return
+
+  const remote = entry.conflict
+  await putLocalAvatar(
+    keep === 'local'
+      ? { ...entry, baseUpdatedAt: remote.updated_at ?? null, dirty: true, conflict: null }
+      : { ...entry, record: remote, baseUpdatedAt: remote.updated_at ?? null, dirty: false, conflict: null }
+  )
+}
@@ -0,0 +1,66 @@
+import * as THREE from 'three'
+import { blink } from '../../blink/client'
+import { canvasToBlob, renderAvatarToCanvas } from '../export/render'
+import { findAvatarRoot, measureAvatar, type AvatarCanvasHandle } from '../export/scene'
+
+export const THUMBNAIL_SIZE = 256
+
+const THUMBNAIL_FOV = 25
+// Head-and-shoulders crop as fractions of the avatar's height, measured from the top
+const CROP_TOP = 0.02
+const CROP_BOTTOM = 0.3
+
+const thumbnailPath = (userId: string, avatarId: string) => `thumbnails/${userId}/${avatarId}.png`
+
+// Square camera looking at the avatar's face from the front, whatever the viewport is framed on
+function createPortraitCamera(root: THREE.Object3D): THREE.PerspectiveCamera {
+  const restYaw = root.rotation.y
+  root.rotation.y = 0
+  const bounds = measureAvatar(root)
+  root.rotation.y = restYaw
+  if (bounds.isEmpty()) {
+    throw new Error('Avatar has no geometry to render')
+  }
+
+  const height = bounds.max.y - bounds.min.y
+  const top = bounds.max.y + height * CROP_TOP
+  const bottom = bounds.max.y - height * CROP_BOTTOM
+  const center = root.getWorldPosition(new THREE.Vector3())
+  const target = new THREE.Vector3(center.x, (top + bottom) / 2, center.z)
+
+  const distance = (top - bottom) / 2 / Math.tan(THREE.MathUtils.degToRad(THUMBNAIL_FOV / 2)) + (bounds.max.z - center.z)
+  const camera = new THREE.PerspectiveCamera(THUMBNAIL_FOV, 1, 0.01, distance * 4)
+  camera.position.set(target.x, target.y, target.z + distance)
+  camera.lookAt(target)
+  camera.updateMatrixWorld()
+  return camera
+}
+
+// Framed head-and-shoulders PNG of what the viewport currently shows
+export async function renderAvatarThumbnail(handle: AvatarCanvasHandle, size = THUMBNAIL_SIZE): Promise<Blob> {
+  const root = findAvatarRoot(handle.scene)
+  if (!root) {
+    throw new Error('Avatar is not rendered yet')
+  }
+
+  const canvas = await renderAvatarToCanvas(handle, {
+    width: size,
+    height: size,
+    camera: createPortraitCamera(root)
+  })
+  return canvasToBlob(canvas, 'image/png')
+}
+
+/**
+ * Upload a thumbnail for a saved avatar and return its public URL. Each avatar keeps
+ * one file that is overwritten on update; the URL carries a version so browsers don't
+ * keep showing the previous image.
+ */
+export async function uploadAvatarThumbnail(blob: Blob, userId: string, avatarId: string): Promise<string> {
+  const { publicUrl } = await blink.storage.upload(blob, thumbnailPath(userId, avatarId), { upsert: true })
+  return `${publicUrl}${publicUrl.includes('?') ? '&' : '?'}v=${Date.now()}`
+}
+
+export async function removeAvatarThumbnail(userId: string, avatarId: string) {
+  await blink.storage.remove(thumbnailPath(userId, avatarId))
+}
@@ -0,0 +1,66 @@
+import { blink } from '../../blink/client'
+import { deleteExportsForAvatar } from '../export/history'
+import { avatarsTable, toSavedAvatar, type SavedAvatar } from './library'
+import { ownModelStoragePath } from './models'
+import { deleteRevisions } from './revisions'
+import { removeAvatarThumbnail } from './thumbnail'
+
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function moveToTrash(avatarIds: string[]) {
+  const deletedAt = new Date().toISOString()
+  await avatarsTable().updateMany(avatarIds.map(id => ({ id, deleted_at: deletedAt })))
+}
+
+export async function restoreFromTrash(avatarIds: string[]) {
+  await avatarsTable().updateMany(avatarIds.map(id => ({ id, deleted_at: null })))
+}
+
+// Most recently deleted first
+export async function listTrash(userId: string): Promise<SavedAvatar[]> {
+  const records = await avatarsTable().list({
+    // Comparisons never match null, so this is every avatar with a deletion date
+    where: { user_id: userId, deleted_at: { lte: new Date().toISOString() } },
+    orderBy: { deleted_at: 'desc' }
+  })
+  return records.map(toSavedAvatar)
+}
+
+export function daysLeftInTrash(deletedAt: string, now = Date.now()): number {
+  const expiresAt = new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS
+  return Math.max(0, Math.ceil((expiresAt - now) / DAY_MS))
+}
+
+/**
+ * Remove an avatar for good, together with its revisions, thumbnail and exports. Its
+ * GLB model is only deleted when the user uploaded it and no avatar, theirs or one
+ * imported into another account, still uses it.
+ */
+export async function purgeAvatar(userId: string, avatar: SavedAvatar) {
+  await deleteExportsForAvatar(avatar.id)
+  await deleteRevisions(avatar.id)
+  // Avatars saved before thumbnails existed have no file to remove
+  await removeAvatarThumbnail(userId, avatar.id).catch(() => {})
+  await avatarsTable().delete(avatar.id)
+
+  const modelUrl = avatar.customModel?.url
+  const modelPath = modelUrl ? ownModelStoragePath(userId, modelUrl) : null
+  if (modelUrl && modelPath) {
+    const stillUsed = await avatarsTable().exists({ where: { custom_model_url: modelUrl } })
+    if (!stillUsed) {
+      await blink.storage.remove(modelPath)
+    }
+  }
+}
+
+// Purge whatever has been in the trash longer than the retention period; returns how many
+export async function purgeExpiredAvatars(userId: string): Promise<number> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+  const records = await avatarsTable().list({ where: { user_id: userId, deleted_at: { lt: cutoff } } })
+  for (const record of records) {
+    await purgeAvatar(userId, toSavedAvatar(record))
+  }
+  return records.length
+}
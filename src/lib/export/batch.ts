@@ -0,0 +1,110 @@
+import { blobToBytes } from './textures'
+import { createZip, type ZipEntries } from './zip'
+import type { AvatarCanvasHandle } from './scene'
+
+export type BatchJobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled'
+
+export interface BatchJobRecord {
+  avatarId: string
+  avatarName: string
+  formatId: string
+  status: BatchJobStatus
+  fileName?: string
+  blob?: Blob
+  error?: string
+}
+
+export interface BatchManifest {
+  app: string
+  version: string
+  generatedAt: string
+  jobs: {
+    avatarId: string
+    avatarName: string
+    format: string
+    status: BatchJobStatus
+    // Path inside the archive, only for finished jobs
+    file?: string
+    bytes?: number
+    error?: string
+  }[]
+}
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'avatar'
+}
+
+/**
+ * Settings changes reach the viewport through a React render and an R3F frame, so
+ * wait a couple of frames before rendering or cloning the scene.
+ */
+export function waitForViewport(frames = 2): Promise<void> {
+  return new Promise((resolve) => {
+    const step = (remaining: number) => {
+      if (remaining === 0) {
+        resolve()
+      } else {
+        requestAnimationFrame(() => step(remaining - 1))
+      }
+    }
+    step(frames)
+  })
+}
+
+/**
+ * Wait until the viewport shows settings applied from code: a couple of frames for React
+ * and R3F to pick them up, then however long the body takes to rebuild or a model to load.
+ */
+export async function waitForAvatar(canvas: AvatarCanvasHandle | null | undefined): Promise<void> {
+  await waitForViewport()
+  await canvas?.whenAvatarReady()
+  // One more frame so the rebuilt avatar has been drawn
+  await waitForViewport(1)
+}
+
+/**
+ * One zip for a whole batch: a folder per avatar holding its exports, plus a
+ * manifest.json listing every job, including the ones that failed or were cancelled.
+ */
+export async function buildBatchArchive(jobs: BatchJobRecord[]): Promise<Blob> {
+  const entries: ZipEntries = {}
+  const folders = new Map<string, string>()
+  const manifest: BatchManifest = {
+    app: 'HD Avatar Creator',
+    version: '1.0',
+    generatedAt: new Date().toISOString(),
+    jobs: []
+  }
+
+  for (const job of jobs) {
+    // Avatars may share a name, so later ones get a numbered folder
+    let folder = folders.get(job.avatarId)
+    if (!folder) {
+      const base = slugify(job.avatarName)
+      const taken = new Set(folders.values())
+      folder = base
+      for (let index = 2; taken.has(folder); index++) folder = `${base}-${index}`
+      folders.set(job.avatarId, folder)
+    }
+
+    const record: BatchManifest['jobs'][number] = {
+      avatarId: job.avatarId,
+      avatarName: job.avatarName,
+      format: job.formatId,
+      status: job.status
+    }
+
+    if (job.status === 'done' && job.blob && job.fileName) {
+      const path = `${folder}/${job.fileName}`
+      entries[path] = await blobToBytes(job.blob)
+      record.file = path
+      record.bytes = job.blob.size
+    } else if (job.error) {
+      record.error = job.error
+    }
+    manifest.jobs.push(record)
+  }
+
+  entries['manifest.json'] = JSON.stringify(manifest, null, 2) + '\n'
+  return createZip(entries)
+}
@@ -0,0 +1,9 @@
+// Trigger a browser download for a generated file and hand back its object URL
+export function downloadBlob(blob: Blob, fileName: string): string {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  return url
+}
@@ -0,0 +1,35 @@
+// gifenc ships without type definitions; only the parts the turntable exporter uses are declared
+declare module 'gifenc' {
+  export type Palette = number[][]
+  export type ColorFormat = 'rgb565' | 'rgb444' | 'rgba4444'
+
+  export interface QuantizeOptions {
+    format?: ColorFormat
+    oneBitAlpha?: boolean | number
+    clearAlpha?: boolean
+    clearAlphaThreshold?: number
+    clearAlphaColor?: number
+  }
+
+  export interface WriteFrameOptions {
+    palette?: Palette
+    first?: boolean
+    transparent?: boolean
+    transparentIndex?: number
+    // Milliseconds; stored by the format in hundredths of a second
+    delay?: number
+    repeat?: number
+    dispose?: number
+  }
+
+  export interface GIFStream {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void
+    finish(): void
+    bytes(): Uint8Array
+    bytesView(): Uint8Array
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): GIFStream
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: QuantizeOptions): Palette
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: ColorFormat): Uint8Array
+}
@@ -0,0 +1,28 @@
+import * as THREE from 'three'
+import { GLTFExporter, type GLTFExporterPlugin, type GLTFWriter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+
+export interface GLBExportOptions {
+  animations?: THREE.AnimationClip[]
+  maxTextureSize?: number
+  // Extra writer plugins, e.g. to add glTF extensions such as VRMC_vrm
+  plugins?: ((writer: GLTFWriter) => GLTFExporterPlugin)[]
+}
+
+// Serialize an avatar copy (see cloneAvatarForExport) into a binary glTF 2.0 file
+export async function exportGLB(root: THREE.Object3D, options: GLBExportOptions = {}): Promise<Blob> {
+  const exporter = new GLTFExporter()
+  options.plugins?.forEach((plugin) => exporter.register(plugin))
+  const result = await exporter.parseAsync(root, {
+    binary: true,
+    trs: true,
+    onlyVisible: true,
+    animations: options.animations ?? [],
+    maxTextureSize: options.maxTextureSize ?? 4096
+  })
+
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error('GLTFExporter did not return binary output')
+  }
+
+  return new Blob([result], { type: 'model/gltf-binary' })
+}
@@ -0,0 +1,93 @@
+import { blink } from '../../blink/client'
+
+// Row in the `exports` table; one per file uploaded to storage
+export interface ExportRecord {
+  id: string
+  user_id: string
+  // Saved avatar the file was made from; null for unsaved avatars and batch archives
+  avatar_id: string | null
+  file_name: string
+  format: string
+  storage_path: string
+  url: string
+  size: number
+  created_at: string
+}
+
+const exportsTable = () => blink.db.table<ExportRecord>('exports')
+
+export interface SaveExportOptions {
+  userId: string
+  avatarId?: string | null
+  fileName: string
+  format: string
+  onProgress?: (percent: number) => void
+}
+
+export async function saveExport(blob: Blob, options: SaveExportOptions): Promise<ExportRecord> {
+  const id = `export_${Date.now()}`
+  // Keyed by user and record id so two exports with the same file name never collide
+  const storagePath = `exports/${options.userId}/${id}/${options.fileName}`
+
+  const { publicUrl } = await blink.storage.upload(blob, storagePath, {
+    upsert: true,
+    onProgress: options.onProgress
+  })
+
+  const record = {
+    id,
+    user_id: options.userId,
+    avatar_id: options.avatarId ?? null,
+    file_name: options.fileName,
+    format: options.format,
+    storage_path: storagePath,
+    url: publicUrl,
+    size: blob.size
+  }
+
+  try {
+    return await exportsTable().create(record)
+  } catch (error) {
+    // Don't leave an orphaned file behind when the record can't be written
+    await blink.storage.remove(storagePath).catch(() => {})
+    throw error
+  }
+}
+
+export async function listExports(userId: string, page: number, pageSize: number) {
+  const [records, total] = await Promise.all([
+    exportsTable().list({
+      where: { user_id: userId },
+      orderBy: { created_at: 'desc' },
+      limit: pageSize,
+      offset: page * pageSize
+    }),
+    exportsTable().count({ where: { user_id: userId } })
+  ])
+  return { records, total }
+}
+
+// The row goes first, so a file that is already gone from storage can't strand it in the history
+export async function deleteExport(record: ExportRecord) {
+  await exportsTable().delete(record.id)
+  await blink.storage.remove(record.storage_path).catch((error) => {
+    console.warn(`Could not remove ${record.storage_path}:`, error)
+  })
+}
+
+// Signed download link that saves under the original file name
+export async function redownloadExport(record: ExportRecord) {
+  const { downloadUrl } = await blink.storage.download(record.storage_path, { filename: record.file_name })
+  const link = document.createElement('a')
+  link.href = downloadUrl
+  link.download = record.file_name
+  link.click()
+}
+
+// Used when an avatar is purged; batch archives have no avatar_id and are kept
+export async function deleteExportsForAvatar(avatarId: string) {
+  const records = await exportsTable().list({ where: { avatar_id: avatarId } })
+  for (const record of records) {
+    await deleteExport(record)
+  }
+}
@@ -0,0 +1,111 @@
+import * as THREE from 'three'
+
+// VRM 1.0 humanoid bone names (https://github.com/vrm-c/vrm-specification/tree/master/specification/VRMC_vrm-1.0)
+export type HumanBoneName =
+  | 'hips' | 'spine' | 'chest' | 'upperChest' | 'neck' | 'head' | 'jaw'
+  | 'leftEye' | 'rightEye'
+  | 'leftShoulder' | 'leftUpperArm' | 'leftLowerArm' | 'leftHand'
+  | 'rightShoulder' | 'rightUpperArm' | 'rightLowerArm' | 'rightHand'
+  | 'leftUpperLeg' | 'leftLowerLeg' | 'leftFoot' | 'leftToes'
+  | 'rightUpperLeg' | 'rightLowerLeg' | 'rightFoot' | 'rightToes'
+  | `${'left' | 'right'}${'Thumb' | 'Index' | 'Middle' | 'Ring' | 'Little'}${'Metacarpal' | 'Proximal' | 'Intermediate' | 'Distal'}`
+
+export type HumanoidBones = Partial<Record<HumanBoneName, THREE.Object3D>>
+
+export const REQUIRED_HUMAN_BONES: HumanBoneName[] = [
+  'hips', 'spine', 'head',
+  'leftUpperArm', 'leftLowerArm', 'leftHand',
+  'rightUpperArm', 'rightLowerArm', 'rightHand',
+  'leftUpperLeg', 'leftLowerLeg', 'leftFoot',
+  'rightUpperLeg', 'rightLowerLeg', 'rightFoot'
+]
+
+// Side-less part of a bone name (lower-cased, separators removed) → humanoid bone suffix
+const CENTER_BONES: Record<string, HumanBoneName> = {
+  hips: 'hips', hip: 'hips', pelvis: 'hips',
+  spine: 'spine', spine0: 'spine', spine01: 'spine',
+  spine1: 'chest', spine02: 'chest', chest: 'chest',
+  spine2: 'upperChest', spine03: 'upperChest', upperchest: 'upperChest',
+  neck: 'neck', neck1: 'neck',
+  head: 'head',
+  jaw: 'jaw'
+}
+
+const SIDED_BONES: Record<string, string> = {
+  eye: 'Eye',
+  shoulder: 'Shoulder', clavicle: 'Shoulder',
+  upperarm: 'UpperArm', arm: 'UpperArm',
+  lowerarm: 'LowerArm', forearm: 'LowerArm',
+  hand: 'Hand', wrist: 'Hand',
+  upperleg: 'UpperLeg', upleg: 'UpperLeg', thigh: 'UpperLeg',
+  lowerleg: 'LowerLeg', leg: 'LowerLeg', calf: 'LowerLeg', shin: 'LowerLeg',
+  foot: 'Foot', ankle: 'Foot',
+  toes: 'Toes', toe: 'Toes', toebase: 'Toes'
+}
+
+const FINGERS: Record<string, string> = { thumb: 'Thumb', index: 'Index', middle: 'Middle', ring: 'Ring', pinky: 'Little', little: 'Little' }
+const THUMB_SEGMENTS = ['Metacarpal', 'Proximal', 'Distal']
+const FINGER_SEGMENTS = ['Proximal', 'Intermediate', 'Distal']
+
+// Prefix tokens added by rigging tools that say nothing about the bone itself
+const NOISE_TOKENS = new Set(['mixamorig', 'j', 'bip', 'bip01', 'bip001', 'def', 'org', 'cc', 'base', 'armature', 'jnt', 'joint', 'bone', 'b'])
+
+/**
+ * Best-effort mapping of a rig's bone name to a humanoid bone. Understands Mixamo
+ * (`mixamorig:LeftForeArm`), VRoid (`J_Bip_L_UpperArm`, `J_Bip_C_Hips`), Blender
+ * limbs (`upper_arm.L`), 3ds Max Biped (`Bip01 L Thigh`) and plain (`leftUpperLeg`)
+ * conventions. Blender's numbered metarig spine (`spine`, `spine.001`, ...) starts at
+ * the hips, which can't be told apart from a plain `spine`, so it is left unmapped.
+ */
+export function matchHumanBone(name: string): HumanBoneName | null {
+  const tokens = name
+    .replace(/^.*[:|]/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[\s._-]+/)
+    .filter((token) => token && !NOISE_TOKENS.has(token))
+
+  let side: 'left' | 'right' | null = null
+  const rest: string[] = []
+  for (const token of tokens) {
+    if (token === 'l' || token === 'left') side = 'left'
+    else if (token === 'r' || token === 'right') side = 'right'
+    // VRoid marks the middle of the body as it does the sides, J_Bip_C_Spine
+    else if (token === 'c' || token === 'center') continue
+    else rest.push(token)
+  }
+
+  // Mixamo spells fingers as LeftHandIndex1
+  const key = rest.join('').replace(/^hand(?=thumb|index|middle|ring|pinky|little)/, '')
+
+  const finger = key.match(/^(thumb|index|middle|ring|pinky|little)(\d)$/)
+  if (finger) {
+    if (!side) return null
+    const segments = finger[1] === 'thumb' ? THUMB_SEGMENTS : FINGER_SEGMENTS
+    const segment = segments[Number(finger[2]) - 1]
+    return segment ? `${side}${FINGERS[finger[1]]}${segment}` as HumanBoneName : null
+  }
+
+  if (!side) {
+    return CENTER_BONES[key] ?? null
+  }
+  const sided = SIDED_BONES[key]
+  return sided ? `${side}${sided}` as HumanBoneName : null
+}
+
+// Humanoid bones of a skinned model; the first bone to claim a slot (closest to the root) wins
+export function findSkeletonBones(root: THREE.Object3D): HumanoidBones {
+  const bones: HumanoidBones = {}
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Bone)) return
+    const bone = matchHumanBone(object.name)
+    if (bone && !bones[bone]) {
+      bones[bone] = object
+    }
+  })
+  return bones
+}
+
+export function missingHumanBones(bones: HumanoidBones): HumanBoneName[] {
+  return REQUIRED_HUMAN_BONES.filter((bone) => !bones[bone])
+}
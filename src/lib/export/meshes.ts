@@ -0,0 +1,141 @@
+import * as THREE from 'three'
+
+// World-space triangles of every mesh that shares one material, merged into a single indexed mesh
+export interface MaterialBatch {
+  name: string
+  material: THREE.Material
+  positions: number[]
+  normals: number[]
+  uvs: number[]
+  indices: number[]
+}
+
+function sanitizeName(name: string) {
+  return name.replace(/[^A-Za-z0-9_-]+/g, '_') || 'Material'
+}
+
+/**
+ * Bake every visible mesh under `root` into world space and merge the results by
+ * material name, so the face details and hair come out as one mesh per material.
+ * Morph targets and skinning are applied, so the export matches what is on screen.
+ * Unnamed materials are kept apart and get a generated name.
+ */
+export function batchMeshesByMaterial(root: THREE.Object3D): MaterialBatch[] {
+  const batches = new Map<string, MaterialBatch>()
+  const position = new THREE.Vector3()
+  const normal = new THREE.Vector3()
+  const normalMatrix = new THREE.Matrix3()
+
+  root.updateMatrixWorld(true)
+
+  const batchFor = (material: THREE.Material) => {
+    const key = material.name ? sanitizeName(material.name) : material.uuid
+    let batch = batches.get(key)
+    if (!batch) {
+      batch = {
+        name: material.name ? key : `Material_${batches.size + 1}`,
+        material,
+        positions: [],
+        normals: [],
+        uvs: [],
+        indices: []
+      }
+      batches.set(key, batch)
+    }
+    return batch
+  }
+
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh) || !object.visible) return
+
+    const geometry = object.geometry as THREE.BufferGeometry
+    const positionAttribute = geometry.getAttribute('position')
+    if (!positionAttribute) return
+
+    const normalAttribute = geometry.getAttribute('normal')
+    const uvAttribute = geometry.getAttribute('uv')
+    const index = geometry.getIndex()
+    const materials = Array.isArray(object.material) ? object.material : [object.material]
+    const drawGroups = geometry.groups.length > 0
+      ? geometry.groups
+      : [{ start: 0, count: index ? index.count : positionAttribute.count, materialIndex: 0 }]
+
+    normalMatrix.getNormalMatrix(object.matrixWorld)
+    // Mirrored transforms flip the winding order, so swap two corners to keep faces outward
+    const mirrored = object.matrixWorld.determinant() < 0
+
+    for (const group of drawGroups) {
+      const material = materials[group.materialIndex ?? 0]
+      if (!material) continue
+
+      const batch = batchFor(material)
+      const remap = new Map<number, number>()
+      const end = Math.min(group.start + group.count, index ? index.count : positionAttribute.count)
+      const corners: number[] = []
+
+      for (let i = group.start; i < end; i++) {
+        const source = index ? index.getX(i) : i
+        let target = remap.get(source)
+
+        if (target === undefined) {
+          target = batch.positions.length / 3
+          remap.set(source, target)
+
+          object.getVertexPosition(source, position).applyMatrix4(object.matrixWorld)
+          batch.positions.push(position.x, position.y, position.z)
+
+          if (normalAttribute) {
+            normal.fromBufferAttribute(normalAttribute, source).applyMatrix3(normalMatrix).normalize()
+          } else {
+            normal.set(0, 1, 0)
+          }
+          batch.normals.push(normal.x, normal.y, normal.z)
+          batch.uvs.push(uvAttribute ? uvAttribute.getX(source) : 0, uvAttribute ? uvAttribute.getY(source) : 0)
+        }
+
+        corners.push(target)
+        if (corners.length === 3) {
+          if (mirrored) {
+            batch.indices.push(corners[0], corners[2], corners[1])
+          } else {
+            batch.indices.push(corners[0], corners[1], corners[2])
+          }
+          corners.length = 0
+        }
+      }
+    }
+  })
+
+  return [...batches.values()].filter((batch) => batch.indices.length > 0)
+}
+
+// World-space triangle soup (9 floats per triangle) for each visible mesh under `root`, as posed and morphed
+export function collectMeshTriangles(root: THREE.Object3D): Float32Array[] {
+  const soups: Float32Array[] = []
+  const vertex = new THREE.Vector3()
+
+  root.updateMatrixWorld(true)
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh) || !object.visible) return
+
+    const geometry = object.geometry as THREE.BufferGeometry
+    const positionAttribute = geometry.getAttribute('position')
+    if (!positionAttribute) return
+
+    const index = geometry.getIndex()
+    const count = index ? index.count : positionAttribute.count
+    const cornerCount = count - (count % 3)
+    if (cornerCount === 0) return
+
+    const soup = new Float32Array(cornerCount * 3)
+    for (let i = 0; i < cornerCount; i++) {
+      object.getVertexPosition(index ? index.getX(i) : i, vertex).applyMatrix4(object.matrixWorld)
+      soup[i * 3] = vertex.x
+      soup[i * 3 + 1] = vertex.y
+      soup[i * 3 + 2] = vertex.z
+    }
+    soups.push(soup)
+  })
+
+  return soups
+}
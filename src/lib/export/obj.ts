@@ -0,0 +1,112 @@
+import * as THREE from 'three'
+import { batchMeshesByMaterial, type MaterialBatch } from './meshes'
+import { createZip, type ZipEntries } from './zip'
+import { fetchBytes, textureToPNG, SKIN_MATERIAL_PATTERN } from './textures'
+
+export interface OBJExportOptions {
+  // Base name for the .obj/.mtl pair inside the bundle
+  baseName?: string
+  // TextureEnhancer output, used as the diffuse map of every skin material
+  skinTextureUrl?: string | null
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(6)).toString()
+
+function materialColor(material: THREE.Material) {
+  const color = (material as THREE.MeshStandardMaterial).color
+  return color ? color.getRGB(new THREE.Color(), THREE.SRGBColorSpace) : new THREE.Color(1, 1, 1)
+}
+
+function writeMaterial(batch: MaterialBatch, diffuseMap: string | null, mapCarriesColor: boolean) {
+  const material = batch.material as THREE.MeshStandardMaterial
+  const color = mapCarriesColor ? new THREE.Color(1, 1, 1) : materialColor(material)
+  const roughness = material.roughness ?? 1
+  const metalness = material.metalness ?? 0
+
+  const lines = [
+    `newmtl ${batch.name}`,
+    'Ka 0 0 0',
+    `Kd ${formatNumber(color.r)} ${formatNumber(color.g)} ${formatNumber(color.b)}`,
+    `Ks ${formatNumber(0.04 + metalness * 0.96)} ${formatNumber(0.04 + metalness * 0.96)} ${formatNumber(0.04 + metalness * 0.96)}`,
+    `Ns ${Math.round((1 - roughness) ** 2 * 1000)}`,
+    `d ${formatNumber(material.transparent ? material.opacity : 1)}`,
+    'illum 2',
+    // PBR extension understood by Blender and most DCC importers
+    `Pr ${formatNumber(roughness)}`,
+    `Pm ${formatNumber(metalness)}`
+  ]
+  if (diffuseMap) {
+    lines.push(`map_Kd ${diffuseMap}`)
+  }
+  return lines.join('\n')
+}
+
+function writeGeometry(batches: MaterialBatch[], mtlName: string) {
+  const lines = ['# HD Avatar Creator OBJ export', `mtllib ${mtlName}`]
+  let offset = 1
+
+  for (const batch of batches) {
+    const map = (batch.material as THREE.MeshStandardMaterial).map
+    // glTF textures are not flipped on upload, so their V axis runs top-down
+    const flipV = map ? map.flipY === false : false
+
+    lines.push(`o ${batch.name}`)
+    for (let i = 0; i < batch.positions.length; i += 3) {
+      lines.push(`v ${formatNumber(batch.positions[i])} ${formatNumber(batch.positions[i + 1])} ${formatNumber(batch.positions[i + 2])}`)
+    }
+    for (let i = 0; i < batch.uvs.length; i += 2) {
+      const v = flipV ? 1 - batch.uvs[i + 1] : batch.uvs[i + 1]
+      lines.push(`vt ${formatNumber(batch.uvs[i])} ${formatNumber(v)}`)
+    }
+    for (let i = 0; i < batch.normals.length; i += 3) {
+      lines.push(`vn ${formatNumber(batch.normals[i])} ${formatNumber(batch.normals[i + 1])} ${formatNumber(batch.normals[i + 2])}`)
+    }
+
+    lines.push(`usemtl ${batch.name}`)
+    for (let i = 0; i < batch.indices.length; i += 3) {
+      const [a, b, c] = [batch.indices[i] + offset, batch.indices[i + 1] + offset, batch.indices[i + 2] + offset]
+      lines.push(`f ${a}/${a}/${a} ${b}/${b}/${b} ${c}/${c}/${c}`)
+    }
+
+    offset += batch.positions.length / 3
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Zip bundle with a Wavefront OBJ (one object per material), its MTL library and
+ * the diffuse maps as PNGs under textures/.
+ */
+export async function exportOBJBundle(root: THREE.Object3D, options: OBJExportOptions = {}): Promise<Blob> {
+  const baseName = options.baseName ?? 'avatar'
+  const batches = batchMeshesByMaterial(root)
+  const entries: ZipEntries = {}
+  const materials: string[] = []
+
+  let skinTexture: string | null = null
+  if (options.skinTextureUrl && batches.some((batch) => SKIN_MATERIAL_PATTERN.test(batch.name))) {
+    skinTexture = 'textures/skin_diffuse.png'
+    entries[skinTexture] = await fetchBytes(options.skinTextureUrl)
+  }
+
+  for (const batch of batches) {
+    if (skinTexture && SKIN_MATERIAL_PATTERN.test(batch.name)) {
+      materials.push(writeMaterial(batch, skinTexture, true))
+      continue
+    }
+
+    const baked = await textureToPNG((batch.material as THREE.MeshStandardMaterial).map)
+    let diffuseMap: string | null = null
+    if (baked) {
+      diffuseMap = `textures/${batch.name}_diffuse.png`
+      entries[diffuseMap] = baked
+    }
+    materials.push(writeMaterial(batch, diffuseMap, false))
+  }
+
+  entries[`${baseName}.mtl`] = '# HD Avatar Creator material library\n\n' + materials.join('\n\n') + '\n'
+  entries[`${baseName}.obj`] = writeGeometry(batches, `${baseName}.mtl`)
+
+  return createZip(entries)
+}
@@ -0,0 +1,185 @@
+import * as THREE from 'three'
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js'
+import { hideExportHelpers, type AvatarCanvasHandle } from './scene'
+
+export type RenderQuality = 'HD' | '4K' | '8K'
+
+export const RENDER_RESOLUTIONS: Record<RenderQuality, { width: number; height: number }> = {
+  HD: { width: 1920, height: 1080 },
+  '4K': { width: 3840, height: 2160 },
+  '8K': { width: 7680, height: 4320 }
+}
+
+// Upper bound on a single tile even on GPUs that allow more, to keep the half-float target small
+const MAX_TILE_SIZE = 4096
+
+export interface RenderOptions {
+  width: number
+  height: number
+  // Defaults to a copy of the viewport camera so the export matches what the user framed
+  camera?: THREE.PerspectiveCamera | THREE.OrthographicCamera
+  onProgress?: (fraction: number) => void
+  // Runs right before every tile is drawn, e.g. to pose the avatar over the viewport's own animation
+  prepare?: () => void
+}
+
+export interface ImageExportOptions extends RenderOptions {
+  format: 'png' | 'jpg'
+  // Solid fill for JPG; PNG is always rendered with a transparent background
+  background?: string
+  jpegQuality?: number
+}
+
+// Largest framebuffer the GPU can render in one pass; bigger images are rendered in tiles
+export function getMaxTileSize(gl: THREE.WebGLRenderer): number {
+  const context = gl.getContext()
+  const maxRenderbuffer: number = context.getParameter(context.MAX_RENDERBUFFER_SIZE)
+  const maxViewport: Int32Array = context.getParameter(context.MAX_VIEWPORT_DIMS)
+  return Math.min(
+    MAX_TILE_SIZE,
+    gl.capabilities.maxTextureSize,
+    maxRenderbuffer,
+    maxViewport[0],
+    maxViewport[1]
+  )
+}
+
+function createExportCamera(handle: AvatarCanvasHandle, width: number, height: number) {
+  const camera = handle.camera.clone() as THREE.PerspectiveCamera
+  camera.aspect = width / height
+  camera.updateProjectionMatrix()
+  return camera
+}
+
+// Render targets come back premultiplied; canvas ImageData expects straight alpha and top-down rows
+function copyTilePixels(pixels: Uint8Array, width: number, height: number): ImageData {
+  const image = new ImageData(width, height)
+  const rowSize = width * 4
+
+  for (let row = 0; row < height; row++) {
+    const source = (height - row - 1) * rowSize
+    const target = row * rowSize
+    for (let i = 0; i < rowSize; i += 4) {
+      const alpha = pixels[source + i + 3]
+      const unpremultiply = alpha > 0 && alpha < 255 ? 255 / alpha : 1
+      image.data[target + i] = Math.min(255, pixels[source + i] * unpremultiply)
+      image.data[target + i + 1] = Math.min(255, pixels[source + i + 1] * unpremultiply)
+      image.data[target + i + 2] = Math.min(255, pixels[source + i + 2] * unpremultiply)
+      image.data[target + i + 3] = alpha
+    }
+  }
+
+  return image
+}
+
+/**
+ * Re-render the live scene offscreen at an arbitrary resolution with a transparent
+ * background. The viewport renderer is reused (so environment maps and shadows carry
+ * over) and the image is assembled tile by tile when it exceeds the GPU's limits.
+ */
+export async function renderAvatarToCanvas(
+  handle: AvatarCanvasHandle,
+  { width, height, camera, onProgress, prepare }: RenderOptions
+): Promise<HTMLCanvasElement> {
+  const { gl, scene } = handle
+  const renderCamera = camera ? camera.clone() : createExportCamera(handle, width, height)
+  const tileSize = getMaxTileSize(gl)
+  const columns = Math.ceil(width / tileSize)
+  const rows = Math.ceil(height / tileSize)
+
+  const output = document.createElement('canvas')
+  output.width = width
+  output.height = height
+  const context = output.getContext('2d')
+  if (!context) {
+    throw new Error('2D canvas is not available')
+  }
+
+  // Scene is rendered linear into a multisampled float target, then tone mapped and sRGB encoded
+  const sceneTarget = new THREE.WebGLRenderTarget(1, 1, {
+    type: THREE.HalfFloatType,
+    samples: Math.min(4, gl.capabilities.maxSamples)
+  })
+  const outputTarget = new THREE.WebGLRenderTarget(1, 1)
+  const outputPass = new OutputPass()
+
+  const previousTarget = gl.getRenderTarget()
+  const previousClearColor = gl.getClearColor(new THREE.Color())
+  const previousClearAlpha = gl.getClearAlpha()
+  const restoreHelpers = hideExportHelpers(scene)
+
+  try {
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const x = column * tileSize
+        const y = row * tileSize
+        const tileWidth = Math.min(tileSize, width - x)
+        const tileHeight = Math.min(tileSize, height - y)
+
+        sceneTarget.setSize(tileWidth, tileHeight)
+        outputTarget.setSize(tileWidth, tileHeight)
+        renderCamera.setViewOffset(width, height, x, y, tileWidth, tileHeight)
+
+        prepare?.()
+        gl.setClearColor(0x000000, 0)
+        gl.setRenderTarget(sceneTarget)
+        gl.clear()
+        gl.render(scene, renderCamera)
+        outputPass.render(gl, outputTarget, sceneTarget, 0, false)
+
+        const pixels = new Uint8Array(tileWidth * tileHeight * 4)
+        gl.readRenderTargetPixels(outputTarget, 0, 0, tileWidth, tileHeight, pixels)
+        context.putImageData(copyTilePixels(pixels, tileWidth, tileHeight), x, y)
+
+        // Hand the renderer back to the viewport between tiles so the UI keeps updating
+        gl.setRenderTarget(previousTarget)
+        gl.setClearColor(previousClearColor, previousClearAlpha)
+        onProgress?.((row * columns + column + 1) / (rows * columns))
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+  } finally {
+    restoreHelpers()
+    gl.setRenderTarget(previousTarget)
+    gl.setClearColor(previousClearColor, previousClearAlpha)
+    sceneTarget.dispose()
+    outputTarget.dispose()
+    outputPass.dispose()
+  }
+
+  return output
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob)
+      } else {
+        reject(new Error(`Failed to encode ${type}`))
+      }
+    }, type, quality)
+  })
+}
+
+export async function renderAvatarImage(handle: AvatarCanvasHandle, options: ImageExportOptions): Promise<Blob> {
+  const rendered = await renderAvatarToCanvas(handle, options)
+
+  if (options.format === 'png') {
+    return canvasToBlob(rendered, 'image/png')
+  }
+
+  // JPG has no alpha channel, so flatten onto the requested background colour
+  const flattened = document.createElement('canvas')
+  flattened.width = rendered.width
+  flattened.height = rendered.height
+  const context = flattened.getContext('2d')
+  if (!context) {
+    throw new Error('2D canvas is not available')
+  }
+  context.fillStyle = options.background ?? '#ffffff'
+  context.fillRect(0, 0, flattened.width, flattened.height)
+  context.drawImage(rendered, 0, 0)
+
+  return canvasToBlob(flattened, 'image/jpeg', options.jpegQuality ?? 0.92)
+}
@@ -0,0 +1,85 @@
+import * as THREE from 'three'
+import { clone as cloneWithSkeletons } from 'three/examples/jsm/utils/SkeletonUtils.js'
+
+// Name given to the root group of both the procedural body and custom GLB models
+export const AVATAR_ROOT_NAME = 'Avatar'
+
+// Live renderer handles passed up from the viewport so exporters can work on what's on screen
+export interface AvatarCanvasHandle {
+  gl: THREE.WebGLRenderer
+  scene: THREE.Scene
+  camera: THREE.Camera
+  // Resolves once the avatar has caught up with the viewport's props: the body rebuilt
+  // for a new build, or a custom model loaded
+  whenAvatarReady: () => Promise<void>
+}
+
+export function findAvatarRoot(scene: THREE.Scene): THREE.Object3D | null {
+  return scene.getObjectByName(AVATAR_ROOT_NAME) ?? null
+}
+
+/**
+ * Detached copy of the avatar in its rest pose: the idle sway is reset and
+ * viewport-only helpers (flagged with `userData.exportIgnore`) are stripped.
+ * Geometry and materials are shared with the live scene, so don't dispose them.
+ */
+export function cloneAvatarForExport(scene: THREE.Scene): THREE.Object3D {
+  const root = findAvatarRoot(scene)
+  if (!root) {
+    throw new Error('Avatar is not rendered yet')
+  }
+
+  const copy = cloneWithSkeletons(root)
+  copy.name = AVATAR_ROOT_NAME
+  copy.position.set(0, 0, 0)
+  copy.rotation.set(0, 0, 0)
+
+  const ignored: THREE.Object3D[] = []
+  copy.traverse((child) => {
+    if (child.userData.exportIgnore) {
+      ignored.push(child)
+    }
+  })
+  ignored.forEach((child) => child.removeFromParent())
+
+  copy.updateMatrixWorld(true)
+  return copy
+}
+
+// Put every skinned mesh under `root` back in its bind pose, whatever the bones were doing
+export function restSkeletons(root: THREE.Object3D) {
+  root.traverse((object) => {
+    if (object instanceof THREE.SkinnedMesh) object.skeleton.pose()
+  })
+  root.updateMatrixWorld(true)
+}
+
+// Hide viewport-only helpers (height label, floor) while rendering exports; returns a restore callback
+export function hideExportHelpers(scene: THREE.Scene): () => void {
+  const hidden: THREE.Object3D[] = []
+  scene.traverse((child) => {
+    if (child.userData.exportIgnore && child.visible) {
+      child.visible = false
+      hidden.push(child)
+    }
+  })
+  return () => hidden.forEach((child) => { child.visible = true })
+}
+
+// World-space bounds of the avatar's meshes, leaving out viewport-only helpers
+export function measureAvatar(root: THREE.Object3D): THREE.Box3 {
+  const bounds = new THREE.Box3()
+  root.updateWorldMatrix(true, true)
+
+  const visit = (object: THREE.Object3D) => {
+    if (object.userData.exportIgnore || !object.visible) return
+    if (object instanceof THREE.Mesh) {
+      bounds.expandByObject(object, false)
+      return
+    }
+    object.children.forEach(visit)
+  }
+  visit(root)
+
+  return bounds
+}
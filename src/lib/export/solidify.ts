@@ -0,0 +1,284 @@
+// Turns a pile of overlapping, possibly open meshes into one closed manifold surface.
+// Each mesh is scan-converted into a shared voxel grid (so overlaps union for free),
+// the occupancy is lightly blurred and the 0.5 iso-surface is extracted with marching
+// tetrahedra, which never leaves cracks between neighbouring cells.
+
+export interface VoxelGrid {
+  // Cell counts along x, y, z
+  size: [number, number, number]
+  // World position of the centre of cell (0, 0, 0)
+  origin: [number, number, number]
+  cellSize: number
+  data: Float32Array
+}
+
+export interface SolidMesh {
+  positions: Float32Array
+  indices: Uint32Array
+}
+
+// Empty cells kept around the shape so the extracted surface always closes
+const PADDING = 3
+
+// Nudges sample rays off exact vertex/edge alignments so shared edges are hit exactly once
+const RAY_JITTER_Y = 1.1e-5
+const RAY_JITTER_Z = 1.7e-5
+
+export function createVoxelGrid(
+  min: [number, number, number],
+  max: [number, number, number],
+  cellSize: number,
+  extraPadding = 0
+): VoxelGrid {
+  const padding = PADDING + extraPadding
+  const size = [0, 1, 2].map((axis) => Math.ceil((max[axis] - min[axis]) / cellSize) + 1 + padding * 2) as [number, number, number]
+  const origin = [0, 1, 2].map((axis) => min[axis] - padding * cellSize) as [number, number, number]
+  return { size, origin, cellSize, data: new Float32Array(size[0] * size[1] * size[2]) }
+}
+
+const cellIndex = (grid: VoxelGrid, x: number, y: number, z: number) =>
+  x + grid.size[0] * (y + grid.size[1] * z)
+
+/**
+ * Mark every cell whose centre lies inside the triangle soup. Rays are cast along +x
+ * through each (y, z) cell column and filled between pairs of crossings; a stray odd
+ * crossing from an open edge (hemispheres, caps) is dropped rather than flooding the row.
+ */
+export function fillTriangleSoup(grid: VoxelGrid, triangles: Float32Array) {
+  const [nx, ny, nz] = grid.size
+  const [ox, oy, oz] = grid.origin
+  const { cellSize } = grid
+  const crossings = new Map<number, number[]>()
+
+  for (let t = 0; t < triangles.length; t += 9) {
+    const ax = triangles[t], ay = triangles[t + 1], az = triangles[t + 2]
+    const bx = triangles[t + 3], by = triangles[t + 4], bz = triangles[t + 5]
+    const cx = triangles[t + 6], cy = triangles[t + 7], cz = triangles[t + 8]
+
+    // Signed area of the triangle projected on the yz plane; edge-on triangles never cross a ray
+    const area = (by - ay) * (cz - az) - (bz - az) * (cy - ay)
+    if (Math.abs(area) < 1e-14) continue
+
+    const yStart = Math.max(0, Math.ceil((Math.min(ay, by, cy) - oy) / cellSize))
+    const yEnd = Math.min(ny - 1, Math.floor((Math.max(ay, by, cy) - oy) / cellSize))
+    const zStart = Math.max(0, Math.ceil((Math.min(az, bz, cz) - oz) / cellSize))
+    const zEnd = Math.min(nz - 1, Math.floor((Math.max(az, bz, cz) - oz) / cellSize))
+
+    for (let k = zStart; k <= zEnd; k++) {
+      const pz = oz + k * cellSize + RAY_JITTER_Z
+      for (let j = yStart; j <= yEnd; j++) {
+        const py = oy + j * cellSize + RAY_JITTER_Y
+
+        // Barycentric coordinates of the ray in the projected triangle
+        const w0 = ((by - py) * (cz - pz) - (bz - pz) * (cy - py)) / area
+        const w1 = ((cy - py) * (az - pz) - (cz - pz) * (ay - py)) / area
+        const w2 = 1 - w0 - w1
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue
+
+        const column = j + ny * k
+        const hits = crossings.get(column)
+        const x = w0 * ax + w1 * bx + w2 * cx
+        if (hits) {
+          hits.push(x)
+        } else {
+          crossings.set(column, [x])
+        }
+      }
+    }
+  }
+
+  for (const [column, hits] of crossings) {
+    const j = column % ny
+    const k = Math.floor(column / ny)
+    hits.sort((a, b) => a - b)
+
+    for (let h = 0; h + 1 < hits.length; h += 2) {
+      const xStart = Math.max(0, Math.ceil((hits[h] - ox) / cellSize))
+      const xEnd = Math.min(nx - 1, Math.floor((hits[h + 1] - ox) / cellSize))
+      for (let i = xStart; i <= xEnd; i++) {
+        grid.data[cellIndex(grid, i, j, k)] = 1
+      }
+    }
+  }
+}
+
+// Fill an upright cylinder (e.g. a figurine base) given in world units
+export function fillCylinder(
+  grid: VoxelGrid,
+  center: [number, number],
+  radius: number,
+  bottom: number,
+  top: number
+) {
+  const [nx, ny, nz] = grid.size
+  const [ox, oy, oz] = grid.origin
+  const { cellSize } = grid
+
+  for (let k = 0; k < nz; k++) {
+    const dz = oz + k * cellSize - center[1]
+    for (let j = 0; j < ny; j++) {
+      const y = oy + j * cellSize
+      if (y < bottom || y > top) continue
+      for (let i = 0; i < nx; i++) {
+        const dx = ox + i * cellSize - center[0]
+        if (dx * dx + dz * dz <= radius * radius) {
+          grid.data[cellIndex(grid, i, j, k)] = 1
+        }
+      }
+    }
+  }
+}
+
+// 3×3×3 box blur (separable) to round off the voxel staircase before meshing
+export function smoothVoxelGrid(grid: VoxelGrid) {
+  const [nx, ny, nz] = grid.size
+  const strides = [1, nx, nx * ny]
+  let source = grid.data
+  let target = new Float32Array(source.length)
+
+  for (let axis = 0; axis < 3; axis++) {
+    const stride = strides[axis]
+    const limit = grid.size[axis]
+    for (let k = 0; k < nz; k++) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          const index = i + nx * (j + ny * k)
+          const position = axis === 0 ? i : axis === 1 ? j : k
+          const before = position > 0 ? source[index - stride] : 0
+          const after = position < limit - 1 ? source[index + stride] : 0
+          target[index] = (before + source[index] + after) / 3
+        }
+      }
+    }
+    ;[source, target] = [target, source]
+  }
+
+  grid.data = source
+}
+
+// Cube corners and the six tetrahedra sharing the 0–6 diagonal; neighbouring cubes split shared faces identically
+const CORNERS: [number, number, number][] = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0],
+  [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]
+]
+const TETRAHEDRA = [
+  [0, 5, 1, 6], [0, 1, 2, 6], [0, 2, 3, 6],
+  [0, 3, 7, 6], [0, 7, 4, 6], [0, 4, 5, 6]
+]
+
+export function extractSurface(grid: VoxelGrid, iso = 0.5): SolidMesh {
+  const [nx, ny, nz] = grid.size
+  const [ox, oy, oz] = grid.origin
+  const { cellSize, data } = grid
+  const pointCount = nx * ny * nz
+
+  const positions: number[] = []
+  const indices: number[] = []
+  const edgeVertices = new Map<number, number>()
+
+  const cornerIds = new Array<number>(8)
+  const cornerValues = new Array<number>(8)
+
+  const vertexOnEdge = (a: number, b: number) => {
+    const key = a < b ? a * pointCount + b : b * pointCount + a
+    const existing = edgeVertices.get(key)
+    if (existing !== undefined) return existing
+
+    const va = data[a]
+    const vb = data[b]
+    const t = (iso - va) / (vb - va)
+    const ax = a % nx, ay = Math.floor(a / nx) % ny, az = Math.floor(a / (nx * ny))
+    const bx = b % nx, by = Math.floor(b / nx) % ny, bz = Math.floor(b / (nx * ny))
+
+    const id = positions.length / 3
+    positions.push(
+      ox + (ax + (bx - ax) * t) * cellSize,
+      oy + (ay + (by - ay) * t) * cellSize,
+      oz + (az + (bz - az) * t) * cellSize
+    )
+    edgeVertices.set(key, id)
+    return id
+  }
+
+  // Emit a triangle, flipped if needed so its normal points from the inside corners to the outside ones
+  const emit = (a: number, b: number, c: number, outward: [number, number, number]) => {
+    const ax = positions[a * 3], ay = positions[a * 3 + 1], az = positions[a * 3 + 2]
+    const ux = positions[b * 3] - ax, uy = positions[b * 3 + 1] - ay, uz = positions[b * 3 + 2] - az
+    const vx = positions[c * 3] - ax, vy = positions[c * 3 + 1] - ay, vz = positions[c * 3 + 2] - az
+    const nxv = uy * vz - uz * vy, nyv = uz * vx - ux * vz, nzv = ux * vy - uy * vx
+    if (nxv * outward[0] + nyv * outward[1] + nzv * outward[2] < 0) {
+      indices.push(a, c, b)
+    } else {
+      indices.push(a, b, c)
+    }
+  }
+
+  for (let k = 0; k < nz - 1; k++) {
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        let inside = 0
+        for (let c = 0; c < 8; c++) {
+          const [dx, dy, dz] = CORNERS[c]
+          const id = i + dx + nx * (j + dy + ny * (k + dz))
+          cornerIds[c] = id
+          cornerValues[c] = data[id]
+          if (data[id] > iso) inside++
+        }
+        if (inside === 0 || inside === 8) continue
+
+        for (const tetra of TETRAHEDRA) {
+          const ins: number[] = []
+          const outs: number[] = []
+          for (const corner of tetra) {
+            if (cornerValues[corner] > iso) ins.push(corner)
+            else outs.push(corner)
+          }
+          if (ins.length === 0 || outs.length === 0) continue
+
+          const outward: [number, number, number] = [0, 0, 0]
+          for (const corner of outs) {
+            for (let axis = 0; axis < 3; axis++) outward[axis] += CORNERS[corner][axis] / outs.length
+          }
+          for (const corner of ins) {
+            for (let axis = 0; axis < 3; axis++) outward[axis] -= CORNERS[corner][axis] / ins.length
+          }
+
+          if (ins.length === 1 || outs.length === 1) {
+            const apex = ins.length === 1 ? ins[0] : outs[0]
+            const others = ins.length === 1 ? outs : ins
+            emit(
+              vertexOnEdge(cornerIds[apex], cornerIds[others[0]]),
+              vertexOnEdge(cornerIds[apex], cornerIds[others[1]]),
+              vertexOnEdge(cornerIds[apex], cornerIds[others[2]]),
+              outward
+            )
+          } else {
+            // Two in, two out: the cut is a quad across four edges
+            const p0 = vertexOnEdge(cornerIds[ins[0]], cornerIds[outs[0]])
+            const p1 = vertexOnEdge(cornerIds[ins[0]], cornerIds[outs[1]])
+            const p2 = vertexOnEdge(cornerIds[ins[1]], cornerIds[outs[1]])
+            const p3 = vertexOnEdge(cornerIds[ins[1]], cornerIds[outs[0]])
+            emit(p0, p1, p2, outward)
+            emit(p0, p2, p3, outward)
+          }
+        }
+      }
+    }
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) }
+}
+
+// Enclosed volume of a closed, consistently oriented mesh (divergence theorem)
+export function meshVolume({ positions, indices }: SolidMesh): number {
+  let volume = 0
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t] * 3, b = indices[t + 1] * 3, c = indices[t + 2] * 3
+    volume += (
+      positions[a] * (positions[b + 1] * positions[c + 2] - positions[b + 2] * positions[c + 1]) -
+      positions[a + 1] * (positions[b] * positions[c + 2] - positions[b + 2] * positions[c]) +
+      positions[a + 2] * (positions[b] * positions[c + 1] - positions[b + 1] * positions[c])
+    ) / 6
+  }
+  return volume
+}
@@ -0,0 +1,201 @@
+import * as THREE from 'three'
+import { canvasToBlob, renderAvatarToCanvas } from './render'
+import { findAvatarRoot, measureAvatar, type AvatarCanvasHandle } from './scene'
+import { blobToBytes } from './textures'
+import { createZip } from './zip'
+
+export type OrthographicView = 'front' | 'side' | 'back'
+
+export interface CharacterSheetOptions {
+  // Evenly spaced yaw views around the avatar, rendered in perspective
+  angles: number
+  orthographicViews: OrthographicView[]
+  // Edge length of each square frame in pixels
+  frameSize: number
+  // Gap between frames so texture filtering never bleeds into neighbours
+  padding?: number
+  // Viewport lighting the frames were rendered with, recorded in the manifest
+  lighting?: unknown
+  onProgress?: (fraction: number) => void
+}
+
+// TexturePacker "JSON (Hash)" layout, readable by Phaser, PixiJS, Godot and Unity importers
+interface AtlasFrame {
+  frame: { x: number; y: number; w: number; h: number }
+  rotated: false
+  trimmed: false
+  spriteSourceSize: { x: number; y: number; w: number; h: number }
+  sourceSize: { w: number; h: number }
+  // Where the avatar's feet touch the ground, relative to the frame
+  pivot: { x: number; y: number }
+}
+
+export interface TexturePackerAtlas {
+  frames: Record<string, AtlasFrame>
+  meta: {
+    app: string
+    version: string
+    image: string
+    format: 'RGBA8888'
+    size: { w: number; h: number }
+    scale: string
+    lighting?: unknown
+  }
+}
+
+interface SheetView {
+  name: string
+  yaw: number
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera
+  pivot: { x: number; y: number }
+}
+
+const ORTHOGRAPHIC_YAW: Record<OrthographicView, number> = {
+  front: 0,
+  // Quarter turn so the avatar faces screen-right, the usual sprite convention
+  side: Math.PI / 2,
+  back: Math.PI
+}
+
+const PERSPECTIVE_FOV = 30
+const FRAME_MARGIN = 1.1
+
+/**
+ * Cameras are fitted to the cylinder the avatar sweeps while turning, so every view
+ * shares one scale and the feet stay at the same spot in each frame.
+ */
+function createSheetViews(root: THREE.Object3D, options: CharacterSheetOptions): SheetView[] {
+  const restYaw = root.rotation.y
+  root.rotation.y = 0
+  const bounds = measureAvatar(root)
+  root.rotation.y = restYaw
+  if (bounds.isEmpty()) {
+    throw new Error('Avatar has no geometry to render')
+  }
+
+  const axis = root.getWorldPosition(new THREE.Vector3())
+  const radius = Math.max(
+    ...[bounds.min.x, bounds.max.x].flatMap((x) =>
+      [bounds.min.z, bounds.max.z].map((z) => Math.hypot(x - axis.x, z - axis.z))
+    )
+  )
+  const height = bounds.max.y - bounds.min.y
+  const target = new THREE.Vector3(axis.x, (bounds.min.y + bounds.max.y) / 2, axis.z)
+  const halfExtent = (Math.max(height, radius * 2) / 2) * FRAME_MARGIN
+
+  const groundPoint = new THREE.Vector3(axis.x, bounds.min.y, axis.z)
+  const views: SheetView[] = []
+  const addView = (name: string, yaw: number, camera: SheetView['camera']) => {
+    camera.lookAt(target)
+    camera.updateMatrixWorld()
+    camera.updateProjectionMatrix()
+    // The ground point sits on the turning axis, so it projects to the same spot for every yaw
+    const projected = groundPoint.clone().project(camera)
+    views.push({
+      name,
+      yaw,
+      camera,
+      pivot: {
+        x: Number(((projected.x + 1) / 2).toFixed(4)),
+        y: Number(((1 - projected.y) / 2).toFixed(4))
+      }
+    })
+  }
+
+  const distance = halfExtent / Math.tan(THREE.MathUtils.degToRad(PERSPECTIVE_FOV / 2)) + radius
+  for (let index = 0; index < options.angles; index++) {
+    const yaw = (index / options.angles) * Math.PI * 2
+    const camera = new THREE.PerspectiveCamera(PERSPECTIVE_FOV, 1, 0.01, distance * 4)
+    camera.position.set(target.x, target.y, target.z + distance)
+    const degrees = Math.round(THREE.MathUtils.radToDeg(yaw))
+    addView(`yaw_${String(degrees).padStart(3, '0')}`, yaw, camera)
+  }
+
+  for (const view of options.orthographicViews) {
+    const camera = new THREE.OrthographicCamera(-halfExtent, halfExtent, halfExtent, -halfExtent, 0.01, radius * 4 + 10)
+    camera.position.set(target.x, target.y, target.z + radius * 2 + 5)
+    addView(view, ORTHOGRAPHIC_YAW[view], camera)
+  }
+
+  return views
+}
+
+/**
+ * Render the avatar from every requested view and pack the frames into one grid
+ * atlas. Returns a zip holding the atlas PNG and its TexturePacker manifest.
+ */
+export async function exportCharacterSheet(
+  handle: AvatarCanvasHandle,
+  options: CharacterSheetOptions,
+  baseName = 'avatar-sheet'
+): Promise<Blob> {
+  const root = findAvatarRoot(handle.scene)
+  if (!root) {
+    throw new Error('Avatar is not rendered yet')
+  }
+
+  const views = createSheetViews(root, options)
+  if (views.length === 0) {
+    throw new Error('Pick at least one view for the character sheet')
+  }
+
+  const { frameSize } = options
+  const padding = options.padding ?? 2
+  const columns = Math.ceil(Math.sqrt(views.length))
+  const rows = Math.ceil(views.length / columns)
+
+  const atlas = document.createElement('canvas')
+  atlas.width = columns * frameSize + (columns - 1) * padding
+  atlas.height = rows * frameSize + (rows - 1) * padding
+  const context = atlas.getContext('2d')
+  if (!context) {
+    throw new Error('2D canvas is not available')
+  }
+
+  const manifest: TexturePackerAtlas = {
+    frames: {},
+    meta: {
+      app: 'HD Avatar Creator',
+      version: '1.0',
+      image: `${baseName}.png`,
+      format: 'RGBA8888',
+      size: { w: atlas.width, h: atlas.height },
+      scale: '1',
+      lighting: options.lighting
+    }
+  }
+
+  const restYaw = root.rotation.y
+  try {
+    for (let index = 0; index < views.length; index++) {
+      const view = views[index]
+      const frame = await renderAvatarToCanvas(handle, {
+        width: frameSize,
+        height: frameSize,
+        camera: view.camera,
+        prepare: () => { root.rotation.y = view.yaw }
+      })
+
+      const x = (index % columns) * (frameSize + padding)
+      const y = Math.floor(index / columns) * (frameSize + padding)
+      context.drawImage(frame, x, y)
+
+      manifest.frames[`${view.name}.png`] = {
+        frame: { x, y, w: frameSize, h: frameSize },
+        rotated: false,
+        trimmed: false,
+        spriteSourceSize: { x: 0, y: 0, w: frameSize, h: frameSize },
+        sourceSize: { w: frameSize, h: frameSize },
+        pivot: view.pivot
+      }
+      options.onProgress?.((index + 1) / views.length)
+    }
+  } finally {
+    root.rotation.y = restYaw
+  }
+
+  return createZip({
+    [`${baseName}.png`]: await blobToBytes(await canvasToBlob(atlas, 'image/png')),
+    [`${baseName}.json`]: JSON.stringify(manifest, null, 2) + '\n'
+  })
+}
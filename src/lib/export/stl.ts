@@ -0,0 +1,174 @@
+import * as THREE from 'three'
+import { collectMeshTriangles } from './meshes'
+import {
+  createVoxelGrid,
+  extractSurface,
+  fillCylinder,
+  fillTriangleSoup,
+  meshVolume,
+  smoothVoxelGrid,
+  type SolidMesh
+} from './solidify'
+
+export interface STLExportOptions {
+  // Height of the printed figure (without base plate) in millimetres
+  heightMm: number
+  basePlate?: boolean
+  encoding?: 'binary' | 'ascii'
+  // Voxel cells along the figure's height; higher is smoother but slower
+  resolution?: number
+}
+
+export interface STLExportResult {
+  blob: Blob
+  volumeMm3: number
+  triangleCount: number
+  // Overall print dimensions including the base plate, in millimetres
+  dimensionsMm: [number, number, number]
+}
+
+const BASE_PLATE_THICKNESS_MM = 3
+const BASE_PLATE_MARGIN = 1.15
+
+function boundsOf(soups: Float32Array[]) {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity]
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity]
+  for (const soup of soups) {
+    for (let i = 0; i < soup.length; i += 3) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], soup[i + axis])
+        max[axis] = Math.max(max[axis], soup[i + axis])
+      }
+    }
+  }
+  return { min, max }
+}
+
+/**
+ * Union all avatar parts into one watertight solid, scaled to `heightMm` and laid out
+ * Z-up with the lowest point on the build plate (z = 0), as slicers expect.
+ */
+export function buildPrintableSolid(root: THREE.Object3D, options: STLExportOptions): SolidMesh {
+  const soups = collectMeshTriangles(root)
+  if (soups.length === 0) {
+    throw new Error('Avatar has no geometry to print')
+  }
+
+  const { min, max } = boundsOf(soups)
+  const modelHeight = max[1] - min[1]
+  const cellSize = modelHeight / (options.resolution ?? 256)
+  const millimetresPerUnit = options.heightMm / modelHeight
+
+  let gridMin = min
+  if (options.basePlate) {
+    // Never thinner than two cells, or the plate would blur away
+    const thickness = Math.max(BASE_PLATE_THICKNESS_MM / millimetresPerUnit, cellSize * 2)
+    gridMin = [min[0], min[1] - thickness, min[2]]
+  }
+
+  const plateRadius = Math.max(max[0] - min[0], max[2] - min[2]) * 0.5 * BASE_PLATE_MARGIN
+  const center: [number, number] = [(min[0] + max[0]) / 2, (min[2] + max[2]) / 2]
+  const platePadding = options.basePlate
+    ? Math.ceil(Math.max(0, plateRadius - Math.min(max[0] - min[0], max[2] - min[2]) / 2) / cellSize)
+    : 0
+
+  const grid = createVoxelGrid(gridMin, max, cellSize, platePadding)
+  soups.forEach((soup) => fillTriangleSoup(grid, soup))
+
+  if (options.basePlate) {
+    // Overlap the feet by a cell so the plate fuses with the figure
+    fillCylinder(grid, center, plateRadius, gridMin[1], min[1] + cellSize)
+  }
+
+  smoothVoxelGrid(grid)
+  const solid = extractSurface(grid)
+
+  // Y-up metres → Z-up millimetres (rotation about X keeps the winding outward)
+  const { positions } = solid
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i] - center[0]
+    const y = positions[i + 1] - gridMin[1]
+    const z = positions[i + 2] - center[1]
+    positions[i] = x * millimetresPerUnit
+    positions[i + 1] = -z * millimetresPerUnit
+    positions[i + 2] = y * millimetresPerUnit
+  }
+
+  // The blurred surface sits a little above the grid floor; rest it on z = 0
+  let lowest = Infinity
+  for (let i = 2; i < positions.length; i += 3) lowest = Math.min(lowest, positions[i])
+  for (let i = 2; i < positions.length; i += 3) positions[i] -= lowest
+
+  return solid
+}
+
+function triangleNormal(positions: Float32Array, a: number, b: number, c: number) {
+  const ux = positions[b] - positions[a], uy = positions[b + 1] - positions[a + 1], uz = positions[b + 2] - positions[a + 2]
+  const vx = positions[c] - positions[a], vy = positions[c + 1] - positions[a + 1], vz = positions[c + 2] - positions[a + 2]
+  const normal = new THREE.Vector3(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx)
+  return normal.lengthSq() > 0 ? normal.normalize() : normal
+}
+
+function encodeBinarySTL({ positions, indices }: SolidMesh): ArrayBuffer {
+  const triangleCount = indices.length / 3
+  const buffer = new ArrayBuffer(84 + triangleCount * 50)
+  const view = new DataView(buffer)
+
+  const header = 'HD Avatar Creator figurine (mm)'
+  for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i))
+  view.setUint32(80, triangleCount, true)
+
+  let offset = 84
+  for (let t = 0; t < indices.length; t += 3) {
+    const corners = [indices[t] * 3, indices[t + 1] * 3, indices[t + 2] * 3]
+    const normal = triangleNormal(positions, corners[0], corners[1], corners[2])
+    view.setFloat32(offset, normal.x, true)
+    view.setFloat32(offset + 4, normal.y, true)
+    view.setFloat32(offset + 8, normal.z, true)
+    offset += 12
+    for (const corner of corners) {
+      view.setFloat32(offset, positions[corner], true)
+      view.setFloat32(offset + 4, positions[corner + 1], true)
+      view.setFloat32(offset + 8, positions[corner + 2], true)
+      offset += 12
+    }
+    view.setUint16(offset, 0, true)
+    offset += 2
+  }
+
+  return buffer
+}
+
+function encodeAsciiSTL({ positions, indices }: SolidMesh): string {
+  const lines = ['solid avatar']
+  const format = (value: number) => value.toExponential(6)
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const corners = [indices[t] * 3, indices[t + 1] * 3, indices[t + 2] * 3]
+    const normal = triangleNormal(positions, corners[0], corners[1], corners[2])
+    lines.push(`  facet normal ${format(normal.x)} ${format(normal.y)} ${format(normal.z)}`)
+    lines.push('    outer loop')
+    for (const corner of corners) {
+      lines.push(`      vertex ${format(positions[corner])} ${format(positions[corner + 1])} ${format(positions[corner + 2])}`)
+    }
+    lines.push('    endloop')
+    lines.push('  endfacet')
+  }
+
+  lines.push('endsolid avatar')
+  return lines.join('\n') + '\n'
+}
+
+export function exportSTL(root: THREE.Object3D, options: STLExportOptions): STLExportResult {
+  const solid = buildPrintableSolid(root, options)
+  const bounds = new THREE.Box3().setFromArray(solid.positions)
+  const size = bounds.getSize(new THREE.Vector3())
+
+  const content = options.encoding === 'ascii' ? encodeAsciiSTL(solid) : encodeBinarySTL(solid)
+  return {
+    blob: new Blob([content], { type: 'model/stl' }),
+    volumeMm3: meshVolume(solid),
+    triangleCount: solid.indices.length / 3,
+    dimensionsMm: [size.x, size.y, size.z]
+  }
+}
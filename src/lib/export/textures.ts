@@ -0,0 +1,42 @@
+import * as THREE from 'three'
+import { canvasToBlob } from './render'
+
+// Material names the viewport treats as skin when applying skin tone (see CustomGLBModel)
+export const SKIN_MATERIAL_PATTERN = /skin|body|face/i
+
+export async function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+export async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+  return blobToBytes(await response.blob())
+}
+
+// Re-encode a material map's image as PNG; data textures and missing images yield null
+export async function textureToPNG(texture: THREE.Texture | null | undefined): Promise<Uint8Array | null> {
+  const image = texture?.image as CanvasImageSource & { width?: number; height?: number } | undefined
+  if (!image || !image.width || !image.height) {
+    return null
+  }
+
+  const canvas = document.createElement('canvas')
+  canvas.width = image.width
+  canvas.height = image.height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    return null
+  }
+
+  try {
+    context.drawImage(image, 0, 0)
+  } catch (error) {
+    console.warn('Could not bake texture:', error)
+    return null
+  }
+
+  return blobToBytes(await canvasToBlob(canvas, 'image/png'))
+}
@@ -0,0 +1,250 @@
+import { GIFEncoder, applyPalette, quantize } from 'gifenc'
+import { ArrayBufferTarget, Muxer } from 'webm-muxer'
+import { canvasToBlob, renderAvatarToCanvas } from './render'
+import { findAvatarRoot, type AvatarCanvasHandle } from './scene'
+import { blobToBytes } from './textures'
+import { createZip, type ZipEntries } from './zip'
+
+export type TurntableFormat = 'gif' | 'webm' | 'png-sequence'
+
+export const TURNTABLE_SIZES = {
+  '512²': { width: 512, height: 512 },
+  '1080²': { width: 1080, height: 1080 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 }
+} as const
+
+export type TurntableSize = keyof typeof TURNTABLE_SIZES
+
+export interface TurntableOptions {
+  format: TurntableFormat
+  // Frames in one full revolution
+  frames: number
+  fps: number
+  width: number
+  height: number
+  // CSS colour, or null for transparent (GIF and PNG only; WebM falls back to white)
+  background: string | null
+  onProgress?: (fraction: number) => void
+}
+
+/**
+ * Render one 360° revolution of the avatar, frame by frame. The avatar's yaw is
+ * forced to the frame angle right before each render, so the viewport's idle sway
+ * never leaks into the output and the loop closes seamlessly.
+ */
+async function renderTurntableFrames(
+  handle: AvatarCanvasHandle,
+  options: TurntableOptions,
+  onFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void> | void
+) {
+  const root = findAvatarRoot(handle.scene)
+  if (!root) {
+    throw new Error('Avatar is not rendered yet')
+  }
+
+  const restYaw = root.rotation.y
+  try {
+    for (let index = 0; index < options.frames; index++) {
+      const angle = (index / options.frames) * Math.PI * 2
+      const frame = await renderAvatarToCanvas(handle, {
+        width: options.width,
+        height: options.height,
+        prepare: () => { root.rotation.y = angle },
+        onProgress: (fraction) => options.onProgress?.((index + fraction * 0.9) / options.frames)
+      })
+      await onFrame(options.background ? flatten(frame, options.background) : frame, index)
+      options.onProgress?.((index + 1) / options.frames)
+    }
+  } finally {
+    root.rotation.y = restYaw
+  }
+}
+
+function flatten(frame: HTMLCanvasElement, background: string) {
+  const context = frame.getContext('2d')
+  if (!context) {
+    throw new Error('2D canvas is not available')
+  }
+  context.globalCompositeOperation = 'destination-over'
+  context.fillStyle = background
+  context.fillRect(0, 0, frame.width, frame.height)
+  context.globalCompositeOperation = 'source-over'
+  return frame
+}
+
+function framePixels(frame: HTMLCanvasElement) {
+  const context = frame.getContext('2d')
+  if (!context) {
+    throw new Error('2D canvas is not available')
+  }
+  return context.getImageData(0, 0, frame.width, frame.height).data
+}
+
+async function encodeGIF(handle: AvatarCanvasHandle, options: TurntableOptions): Promise<Blob> {
+  const gif = GIFEncoder()
+  const transparent = options.background === null
+  // GIF delays are stored in hundredths of a second
+  const delay = Math.max(2, Math.round(100 / options.fps)) * 10
+
+  await renderTurntableFrames(handle, options, (frame) => {
+    const rgba = framePixels(frame)
+    const format = transparent ? 'rgba4444' : 'rgb565'
+    const palette = quantize(rgba, 256, { format, oneBitAlpha: transparent })
+    const index = applyPalette(rgba, palette, format)
+    const transparentIndex = transparent ? palette.findIndex((color) => color[3] === 0) : -1
+
+    gif.writeFrame(index, frame.width, frame.height, {
+      palette,
+      delay,
+      transparent: transparentIndex >= 0,
+      transparentIndex: Math.max(0, transparentIndex)
+    })
+  })
+
+  gif.finish()
+  return new Blob([gif.bytes()], { type: 'image/gif' })
+}
+
+async function pickVideoCodec(width: number, height: number, fps: number) {
+  const candidates = [
+    { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' }
+  ]
+  for (const candidate of candidates) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * 0.2)
+    }
+    const { supported } = await VideoEncoder.isConfigSupported(config)
+    if (supported) return { config, muxerCodec: candidate.muxerCodec }
+  }
+  return null
+}
+
+// WebCodecs path: every frame gets an exact timestamp, however long it took to render
+async function encodeWebMWithWebCodecs(
+  handle: AvatarCanvasHandle,
+  options: TurntableOptions,
+  codec: NonNullable<Awaited<ReturnType<typeof pickVideoCodec>>>
+): Promise<Blob> {
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: codec.muxerCodec, width: options.width, height: options.height, frameRate: options.fps }
+  })
+  let encoderError: Error | null = null
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => { encoderError = error }
+  })
+  encoder.configure(codec.config)
+
+  const frameDuration = 1_000_000 / options.fps
+  try {
+    await renderTurntableFrames(handle, options, async (frame, index) => {
+      if (encoderError) throw encoderError
+
+      const videoFrame = new VideoFrame(frame, {
+        timestamp: Math.round(index * frameDuration),
+        duration: Math.round(frameDuration)
+      })
+      // A keyframe every two seconds keeps seeking cheap in looping players
+      encoder.encode(videoFrame, { keyFrame: index % (options.fps * 2) === 0 })
+      videoFrame.close()
+
+      // Don't let the encoder queue grow unbounded on slow machines
+      while (encoder.encodeQueueSize > 4) {
+        await new Promise(resolve => setTimeout(resolve, 10))
+      }
+    })
+
+    await encoder.flush()
+    if (encoderError) throw encoderError
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  muxer.finalize()
+  return new Blob([muxer.target.buffer], { type: 'video/webm' })
+}
+
+/**
+ * MediaRecorder fallback for browsers without WebCodecs. Recording is real-time, so
+ * all frames are rendered up front and then played into the stream at the target fps.
+ */
+async function encodeWebMWithMediaRecorder(handle: AvatarCanvasHandle, options: TurntableOptions): Promise<Blob> {
+  const frames: ImageBitmap[] = []
+  await renderTurntableFrames(handle, options, async (frame) => {
+    frames.push(await createImageBitmap(frame))
+  })
+
+  const stage = document.createElement('canvas')
+  stage.width = options.width
+  stage.height = options.height
+  const context = stage.getContext('2d')
+  if (!context) {
+    throw new Error('2D canvas is not available')
+  }
+
+  const stream = stage.captureStream(0)
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[]
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find((type) => MediaRecorder.isTypeSupported(type))
+  if (!mimeType) {
+    frames.forEach((frame) => frame.close())
+    throw new Error('This browser cannot record WebM video')
+  }
+
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve() })
+
+  recorder.start()
+  const start = performance.now()
+  for (let index = 0; index < frames.length; index++) {
+    context.drawImage(frames[index], 0, 0)
+    track.requestFrame()
+    frames[index].close()
+
+    const next = start + ((index + 1) * 1000) / options.fps
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, next - performance.now())))
+  }
+  recorder.stop()
+  await stopped
+  track.stop()
+
+  return new Blob(chunks, { type: 'video/webm' })
+}
+
+async function encodeWebM(handle: AvatarCanvasHandle, options: TurntableOptions): Promise<Blob> {
+  // VP8/VP9 in WebM can't carry our alpha reliably, so video always gets a solid background
+  const opaque = { ...options, background: options.background ?? '#ffffff' }
+
+  if (typeof VideoEncoder !== 'undefined') {
+    const codec = await pickVideoCodec(opaque.width, opaque.height, opaque.fps)
+    if (codec) return encodeWebMWithWebCodecs(handle, opaque, codec)
+  }
+  return encodeWebMWithMediaRecorder(handle, opaque)
+}
+
+async function encodePNGSequence(handle: AvatarCanvasHandle, options: TurntableOptions): Promise<Blob> {
+  const entries: ZipEntries = {}
+  await renderTurntableFrames(handle, options, async (frame, index) => {
+    entries[`frame_${String(index).padStart(4, '0')}.png`] = await blobToBytes(await canvasToBlob(frame, 'image/png'))
+  })
+  return createZip(entries)
+}
+
+export async function exportTurntable(handle: AvatarCanvasHandle, options: TurntableOptions): Promise<Blob> {
+  switch (options.format) {
+    case 'gif': return encodeGIF(handle, options)
+    case 'webm': return encodeWebM(handle, options)
+    case 'png-sequence': return encodePNGSequence(handle, options)
+  }
+}
@@ -0,0 +1,112 @@
+import * as THREE from 'three'
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js'
+import { batchMeshesByMaterial } from './meshes'
+
+export interface USDZExportOptions {
+  // Real-world height of the avatar in metres (AvatarSettings.height / 100)
+  heightMeters: number
+  maxTextureSize?: number
+}
+
+// USDZ only carries MeshStandardMaterial; anything else is approximated
+function toStandardMaterial(material: THREE.Material): THREE.MeshStandardMaterial {
+  if (material instanceof THREE.MeshStandardMaterial) {
+    return material
+  }
+
+  const source = material as THREE.MeshBasicMaterial
+  const standard = new THREE.MeshStandardMaterial({
+    name: material.name,
+    color: source.color?.clone() ?? new THREE.Color(1, 1, 1),
+    map: source.map ?? null,
+    transparent: material.transparent,
+    opacity: material.opacity,
+    alphaTest: material.alphaTest,
+    roughness: 1,
+    metalness: 0
+  })
+
+  // Unlit materials keep their flat look by emitting their own colour
+  if (material instanceof THREE.MeshBasicMaterial) {
+    standard.emissive.copy(standard.color)
+    standard.emissiveMap = standard.map
+  }
+  return standard
+}
+
+/**
+ * Rebuild the avatar as plain world-space meshes, one per material. USDZExporter
+ * skips multi-material meshes and mirrored transforms, both of which the avatar
+ * uses, and baking sidesteps both.
+ */
+function buildARModel(root: THREE.Object3D, heightMeters: number): THREE.Object3D {
+  const model = new THREE.Group()
+  model.name = 'Avatar'
+
+  for (const batch of batchMeshesByMaterial(root)) {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(batch.positions, 3))
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(batch.normals, 3))
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(batch.uvs, 2))
+    geometry.setIndex(batch.indices)
+
+    const mesh = new THREE.Mesh(geometry, toStandardMaterial(batch.material))
+    mesh.name = batch.name
+    model.add(mesh)
+  }
+
+  const bounds = new THREE.Box3().setFromObject(model)
+  const modelHeight = bounds.max.y - bounds.min.y
+  if (bounds.isEmpty() || modelHeight <= 0) {
+    throw new Error('Avatar has no geometry to export')
+  }
+
+  // Quick Look shows USD at 1 unit = 1 m: stand the avatar on the floor at true height
+  const scale = heightMeters / modelHeight
+  const center = bounds.getCenter(new THREE.Vector3())
+  model.scale.setScalar(scale)
+  model.position.set(-center.x * scale, -bounds.min.y * scale, -center.z * scale)
+  model.updateMatrixWorld(true)
+
+  return model
+}
+
+export async function exportUSDZ(root: THREE.Object3D, options: USDZExportOptions): Promise<Blob> {
+  const model = buildARModel(root, options.heightMeters)
+
+  try {
+    const exporter = new USDZExporter()
+    const data = await exporter.parseAsync(model, {
+      quickLookCompatible: true,
+      includeAnchoringProperties: true,
+      ar: { anchoring: { type: 'plane' }, planeAnchoring: { alignment: 'horizontal' } },
+      maxTextureSize: options.maxTextureSize ?? 2048
+    })
+    return new Blob([data], { type: 'model/vnd.usdz+zip' })
+  } finally {
+    model.traverse((object) => {
+      if (object instanceof THREE.Mesh) object.geometry.dispose()
+    })
+  }
+}
+
+// Safari on iOS/iPadOS advertises AR Quick Look through rel="ar" links
+export function supportsARQuickLook(): boolean {
+  const link = document.createElement('a')
+  return link.relList?.supports?.('ar') ?? false
+}
+
+/**
+ * Open a USDZ in AR Quick Look. Content scaling is switched off so the avatar
+ * can't be pinched away from its true height.
+ */
+export function openARQuickLook(blob: Blob): string {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.rel = 'ar'
+  link.href = `${url}#allowsContentScaling=0`
+  // Quick Look only takes over links that wrap an image
+  link.appendChild(document.createElement('img'))
+  link.click()
+  return url
+}
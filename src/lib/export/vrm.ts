@@ -0,0 +1,268 @@
+import * as THREE from 'three'
+import type { GLTFExporterPlugin, GLTFWriter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { exportGLB } from './glb'
+import { isParametricBody } from '../avatar/body'
+import {
+  findSkeletonBones,
+  missingHumanBones,
+  type HumanBoneName,
+  type HumanoidBones
+} from './humanoid'
+
+export interface VRMMeta {
+  name: string
+  authors: string[]
+  version?: string
+}
+
+export interface VRMExportOptions {
+  meta: VRMMeta
+  // MToon toon shading, or plain unlit for runtimes without MToon support
+  materialStyle?: 'mtoon' | 'unlit'
+}
+
+type ExpressionPreset =
+  | 'happy' | 'angry' | 'sad' | 'relaxed' | 'surprised'
+  | 'aa' | 'ih' | 'ou' | 'ee' | 'oh'
+  | 'blink' | 'blinkLeft' | 'blinkRight'
+
+// Morph target names (lower-cased, separators removed) that drive each preset, covering
+// VRoid (Fcl_*), ARKit blendshapes, Oculus visemes and the procedural body's own targets
+const EXPRESSION_MORPHS: Record<ExpressionPreset, string[]> = {
+  happy: ['happy', 'joy', 'fclalljoy', 'smile', 'mouthsmile'],
+  angry: ['angry', 'fclallangry'],
+  sad: ['sad', 'sorrow', 'fclallsorrow', 'mouthfrown'],
+  relaxed: ['relaxed', 'fun', 'fclallfun'],
+  surprised: ['surprised', 'fclallsurprised'],
+  aa: ['aa', 'a', 'fclmtha', 'visemeaa', 'jawopen'],
+  ih: ['ih', 'i', 'fclmthi', 'visemei'],
+  ou: ['ou', 'u', 'fclmthu', 'visemeu', 'mouthfunnel'],
+  ee: ['ee', 'e', 'fclmthe', 'visemee'],
+  oh: ['oh', 'o', 'fclmtho', 'visemeo', 'mouthpucker'],
+  blink: ['blink', 'fcleyeclose', 'eyesclosed'],
+  blinkLeft: ['blinkleft', 'blinkl', 'eyeblinkleft', 'fcleyeclosel'],
+  blinkRight: ['blinkright', 'blinkr', 'eyeblinkright', 'fcleyecloser']
+}
+
+const VRM_LICENSE_URL = 'https://vrm.dev/licenses/1.0/'
+
+// GLTFWriter keeps these public at runtime but the typings don't expose them
+interface WriterInternals {
+  json: { extensions?: Record<string, unknown> }
+  nodeMap: Map<THREE.Object3D, number>
+}
+
+interface MorphBind {
+  mesh: THREE.Mesh
+  index: number
+}
+
+const normalizeMorphName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+function addMorphTarget(mesh: THREE.Mesh, name: string, transform: (vertex: THREE.Vector3) => void) {
+  const geometry = mesh.geometry as THREE.BufferGeometry
+  const base = geometry.getAttribute('position')
+  const target = new THREE.Float32BufferAttribute(new Float32Array(base.count * 3), 3)
+  const vertex = new THREE.Vector3()
+  const original = new THREE.Vector3()
+
+  for (let i = 0; i < base.count; i++) {
+    original.fromBufferAttribute(base, i)
+    transform(vertex.copy(original))
+    // The parametric body's eyes and lips use relative targets, which store offsets rather than positions
+    if (geometry.morphTargetsRelative) vertex.sub(original)
+    target.setXYZ(i, vertex.x, vertex.y, vertex.z)
+  }
+  target.name = name
+
+  geometry.morphAttributes.position = [...(geometry.morphAttributes.position ?? []), target]
+  // updateMorphTargets zeroes every weight; keep the ones the sliders set
+  const weights = mesh.morphTargetInfluences?.slice() ?? []
+  mesh.updateMorphTargets()
+  weights.forEach((weight, index) => { mesh.morphTargetInfluences![index] = weight })
+}
+
+/**
+ * Shape keys for the procedural face, built from the eye and mouth primitives: eyes
+ * squash shut for blinks and the mouth stretches into vowel and mood shapes.
+ * Geometry is cloned first because export copies share it with the viewport.
+ */
+function addProceduralExpressions(root: THREE.Object3D) {
+  const cloned = new Set<THREE.BufferGeometry>()
+  const own = (mesh: THREE.Mesh) => {
+    if (!cloned.has(mesh.geometry)) {
+      mesh.geometry = mesh.geometry.clone()
+      cloned.add(mesh.geometry)
+    }
+    return mesh
+  }
+  const scale = (x: number, y: number, z: number) => (vertex: THREE.Vector3) => vertex.multiply(new THREE.Vector3(x, y, z))
+
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return
+
+    const eye = object.name.match(/^(Eye|Pupil)_([RL])$/)
+    if (eye) {
+      addMorphTarget(own(object), eye[2] === 'L' ? 'blinkLeft' : 'blinkRight', scale(1, 0.1, 1))
+    }
+
+    if (object.name === 'Mouth') {
+      const mouth = own(object)
+      addMorphTarget(mouth, 'aa', scale(1, 2.4, 1))
+      addMorphTarget(mouth, 'ih', scale(1.2, 0.8, 1))
+      addMorphTarget(mouth, 'ou', scale(0.7, 1.3, 1.2))
+      addMorphTarget(mouth, 'ee', scale(1.35, 1.1, 1))
+      addMorphTarget(mouth, 'oh', scale(0.8, 1.9, 1.1))
+      // Mouth corners lift for a smile and drop for a frown
+      mouth.geometry.computeBoundingSphere()
+      const radius = mouth.geometry.boundingSphere!.radius
+      addMorphTarget(mouth, 'happy', (vertex) => vertex.set(vertex.x * 1.3, vertex.y + (vertex.x * vertex.x) / radius, vertex.z))
+      addMorphTarget(mouth, 'sad', (vertex) => vertex.set(vertex.x * 0.9, vertex.y - (vertex.x * vertex.x) / radius, vertex.z))
+      addMorphTarget(mouth, 'surprised', scale(0.75, 2.2, 1.2))
+    }
+  })
+}
+
+function collectExpressionBinds(root: THREE.Object3D) {
+  const binds: Partial<Record<ExpressionPreset, MorphBind[]>> = {}
+
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh) || !object.morphTargetDictionary) return
+
+    for (const [name, index] of Object.entries(object.morphTargetDictionary)) {
+      const normalized = normalizeMorphName(name)
+      for (const [preset, candidates] of Object.entries(EXPRESSION_MORPHS) as [ExpressionPreset, string[]][]) {
+        if (candidates.includes(normalized)) {
+          (binds[preset] ??= []).push({ mesh: object, index })
+        }
+      }
+    }
+  })
+
+  // Rigs with only per-eye blinks still get a both-eyes blink
+  if (!binds.blink && (binds.blinkLeft || binds.blinkRight)) {
+    binds.blink = [...(binds.blinkLeft ?? []), ...(binds.blinkRight ?? [])]
+  }
+
+  return binds
+}
+
+function linearColor(material: THREE.Material): [number, number, number] {
+  const color = (material as THREE.MeshStandardMaterial).color ?? new THREE.Color(1, 1, 1)
+  return [color.r, color.g, color.b]
+}
+
+function createVRMPlugin(root: THREE.Object3D, bones: HumanoidBones, options: VRMExportOptions) {
+  return (writer: GLTFWriter): GLTFExporterPlugin => {
+    const internals = writer as unknown as WriterInternals
+    const materialStyle = options.materialStyle ?? 'mtoon'
+
+    return {
+      writeMaterialAsync: async (material, materialDef) => {
+        const extensions = (materialDef.extensions ??= {}) as Record<string, unknown>
+        if (materialStyle === 'unlit') {
+          extensions.KHR_materials_unlit = {}
+          writer.extensionsUsed.KHR_materials_unlit = true
+          return
+        }
+
+        const [r, g, b] = linearColor(material)
+        const baseColorTexture = (materialDef.pbrMetallicRoughness as { baseColorTexture?: { index: number } } | undefined)?.baseColorTexture
+        extensions.VRMC_materials_mtoon = {
+          specVersion: '1.0',
+          transparentWithZWrite: false,
+          renderQueueOffsetNumber: 0,
+          // Shade is a darker, slightly warmer take on the lit colour
+          shadeColorFactor: [r * 0.75, g * 0.65, b * 0.65],
+          ...(baseColorTexture ? { shadeMultiplyTexture: { index: baseColorTexture.index } } : {}),
+          shadingShiftFactor: -0.05,
+          shadingToonyFactor: 0.9,
+          giEqualizationFactor: 0.9,
+          parametricRimColorFactor: [0, 0, 0],
+          rimLightingMixFactor: 1,
+          outlineWidthMode: 'none'
+        }
+        writer.extensionsUsed.VRMC_materials_mtoon = true
+      },
+
+      afterParse: () => {
+        const nodeOf = (object: THREE.Object3D) => {
+          const node = internals.nodeMap.get(object)
+          if (node === undefined) throw new Error(`"${object.name}" was not exported`)
+          return node
+        }
+
+        const humanBones: Record<string, { node: number }> = {}
+        for (const [name, bone] of Object.entries(bones) as [HumanBoneName, THREE.Object3D][]) {
+          humanBones[name] = { node: nodeOf(bone) }
+        }
+
+        const preset: Record<string, unknown> = {}
+        for (const [name, binds] of Object.entries(collectExpressionBinds(root))) {
+          preset[name] = {
+            morphTargetBinds: binds.map(({ mesh, index }) => ({ node: nodeOf(mesh), index, weight: 1 })),
+            isBinary: false,
+            overrideBlink: 'none',
+            overrideLookAt: 'none',
+            overrideMouth: 'none'
+          }
+        }
+
+        const vrm: Record<string, unknown> = {
+          specVersion: '1.0',
+          meta: {
+            name: options.meta.name,
+            version: options.meta.version ?? '1.0',
+            authors: options.meta.authors,
+            licenseUrl: VRM_LICENSE_URL,
+            avatarPermission: 'onlyAuthor',
+            allowExcessivelyViolentUsage: false,
+            allowExcessivelySexualUsage: false,
+            commercialUsage: 'personalNonProfit',
+            allowPoliticalOrReligiousUsage: false,
+            allowAntisocialOrHateUsage: false,
+            creditNotation: 'required',
+            allowRedistribution: false,
+            modification: 'prohibited'
+          },
+          humanoid: { humanBones },
+          expressions: { preset, custom: {} }
+        }
+
+        // Eye bones let runtimes aim the gaze directly; the offset is in the head bone's space
+        if (bones.head && bones.leftEye && bones.rightEye) {
+          const eyes = bones.leftEye.getWorldPosition(new THREE.Vector3())
+            .add(bones.rightEye.getWorldPosition(new THREE.Vector3()))
+            .multiplyScalar(0.5)
+          vrm.lookAt = { offsetFromHeadBone: bones.head.worldToLocal(eyes).toArray(), type: 'bone' }
+        }
+
+        internals.json.extensions = { ...internals.json.extensions, VRMC_vrm: vrm }
+        writer.extensionsUsed.VRMC_vrm = true
+      }
+    }
+  }
+}
+
+/**
+ * VRM 1.0 avatar from an export copy (see cloneAvatarForExport). The skeleton is
+ * matched to humanoid bones by name; the parametric body's face details get shape
+ * keys first, since they have none of their own.
+ */
+export async function exportVRM(root: THREE.Object3D, options: VRMExportOptions): Promise<Blob> {
+  const bones = findSkeletonBones(root)
+  if (!bones.hips) {
+    throw new Error('This model has no humanoid skeleton to map to VRM')
+  }
+  if (isParametricBody(root)) {
+    addProceduralExpressions(root)
+  }
+
+  const missing = missingHumanBones(bones)
+  if (missing.length > 0) {
+    throw new Error(`Skeleton is missing humanoid bones: ${missing.join(', ')}`)
+  }
+
+  root.updateMatrixWorld(true)
+  return exportGLB(root, { plugins: [createVRMPlugin(root, bones, options)] })
+}
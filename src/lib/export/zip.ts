@@ -0,0 +1,24 @@
+import { zip, strToU8, type Zippable } from 'fflate'
+
+export type ZipEntries = Record<string, Uint8Array | string>
+
+// Already-compressed payloads are stored as-is; deflating them again only costs time
+const STORED_EXTENSIONS = /\.(png|jpe?g|gif|webm|glb|usdz|vrm|zip)$/i
+
+export function createZip(entries: ZipEntries): Promise<Blob> {
+  const files: Zippable = {}
+  for (const [path, content] of Object.entries(entries)) {
+    const data = typeof content === 'string' ? strToU8(content) : content
+    files[path] = [data, { level: STORED_EXTENSIONS.test(path) ? 0 : 6 }]
+  }
+
+  return new Promise((resolve, reject) => {
+    zip(files, (error, data) => {
+      if (error) {
+        reject(error)
+      } else {
+        resolve(new Blob([data], { type: 'application/zip' }))
+      }
+    })
+  })
+}